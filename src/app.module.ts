@@ -3,6 +3,7 @@ import { ConfigModule } from '@nestjs/config';
 import { ScheduleModule } from '@nestjs/schedule';
 import { BitbucketModule } from './bitbucket/bitbucket.module';
 import { PachkaModule } from './pachka/pachka.module';
+import { CommandsModule } from './commands/commands.module';
 import configuration from './config/configuration';
 
 @Module({
@@ -14,6 +15,7 @@ import configuration from './config/configuration';
     ScheduleModule.forRoot(),
     BitbucketModule,
     PachkaModule,
+    CommandsModule,
   ],
 })
 export class AppModule {}
@@ -0,0 +1,230 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  formatPullRequestKey,
+  getPullRequestKey,
+} from '../../pachka/store/pull-request-key';
+import { KeyValueStorage } from '../../storage/interfaces/key-value-storage.interface';
+import { STORAGE } from '../../storage/storage.constants';
+import {
+  BitbucketCredentials,
+  UserProfile,
+} from '../../users/interfaces/user-profile.interface';
+import { BitbucketService } from '../bitbucket.service';
+import { PullRequest } from '../interfaces/pull-request.interface';
+
+export type PullRequestAction = 'approve' | 'request_changes' | 'merge';
+
+export const MERGE_STRATEGIES = ['merge_commit', 'squash', 'fast_forward'];
+
+export type ActionOutcome = 'succeeded' | 'denied' | 'failed';
+
+// Every action attempted from Pachka, whoever's credentials were used and
+// whether or not it went through.
+export interface ActionAuditEntry {
+  action: PullRequestAction;
+  prKey: string;
+  accountId?: string; // unset for senders missing from the user directory
+  pachkaUserId?: number;
+  viaServiceAccount?: boolean;
+  reason?: string;
+  outcome: ActionOutcome;
+  error?: string; // why the action was denied or failed
+  attemptedAt: string;
+}
+
+const AUDIT_COLLECTION = 'action-audit';
+
+const SERVICE_ACCOUNT_COMMENTS: Record<PullRequestAction, string> = {
+  approve: '✅ PR одобрен через Pachka',
+  request_changes: '🔴 Изменения запрошены через Pachka',
+  merge: '🟣 PR влит через Pachka',
+};
+
+@Injectable()
+export class PullRequestActionsService {
+  private readonly logger: Logger = new Logger(PullRequestActionsService.name);
+
+  private readonly useServiceAccount: boolean = this.configService.get<boolean>(
+    'actions.serviceAccount',
+    false,
+  );
+
+  private readonly mergers: string[] = this.configService.get<string[]>(
+    'actions.mergers',
+    [],
+  );
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly bitbucketService: BitbucketService,
+    @Inject(STORAGE) private readonly storage: KeyValueStorage,
+  ) {}
+
+  // Users act with their own credentials; without them the service account
+  // is used, if enabled.
+  canAct(profile: UserProfile): boolean {
+    return !!profile.bitbucketCredentials || this.useServiceAccount;
+  }
+
+  isReviewer(pr: PullRequest, profile: UserProfile): boolean {
+    return pr.reviewers.some(
+      (reviewer) => reviewer.account_id === profile.accountId,
+    );
+  }
+
+  canMerge(pr: PullRequest, profile: UserProfile): boolean {
+    return (
+      pr.author.account_id === profile.accountId ||
+      this.mergers.includes(profile.accountId)
+    );
+  }
+
+  async approve(pr: PullRequest, profile: UserProfile): Promise<void> {
+    await this.perform('approve', pr, profile, (credentials) =>
+      this.bitbucketService.approvePullRequest(
+        getPullRequestKey(pr),
+        credentials,
+      ),
+    );
+  }
+
+  async requestChanges(
+    pr: PullRequest,
+    profile: UserProfile,
+    reason?: string,
+  ): Promise<void> {
+    await this.perform(
+      'request_changes',
+      pr,
+      profile,
+      (credentials) =>
+        this.bitbucketService.requestChanges(
+          getPullRequestKey(pr),
+          credentials,
+        ),
+      reason,
+    );
+  }
+
+  async merge(
+    pr: PullRequest,
+    profile: UserProfile,
+    mergeStrategy?: string,
+  ): Promise<void> {
+    await this.perform('merge', pr, profile, (credentials) =>
+      this.bitbucketService.mergePullRequest(
+        getPullRequestKey(pr),
+        mergeStrategy,
+        credentials,
+      ),
+    );
+  }
+
+  // Attempts refused before reaching Bitbucket, e.g. for lack of permission
+  // or by the merge policy.
+  async recordDenied(
+    action: PullRequestAction,
+    prKey: string,
+    pachkaUserId: number,
+    profile: UserProfile | undefined,
+    error: string,
+  ): Promise<void> {
+    await this.audit({
+      action,
+      prKey,
+      accountId: profile?.accountId,
+      pachkaUserId,
+      outcome: 'denied',
+      error,
+    });
+  }
+
+  private async perform(
+    action: PullRequestAction,
+    pr: PullRequest,
+    profile: UserProfile,
+    call: (credentials?: BitbucketCredentials) => Promise<void>,
+    reason?: string,
+  ): Promise<void> {
+    const credentials = profile.bitbucketCredentials;
+    const prKey = getPullRequestKey(pr);
+    const attempt = {
+      action,
+      prKey: formatPullRequestKey(prKey),
+      accountId: profile.accountId,
+      pachkaUserId: profile.pachkaUserId,
+      viaServiceAccount: !credentials,
+      reason,
+    };
+
+    if (!this.canAct(profile)) {
+      await this.audit({
+        ...attempt,
+        outcome: 'denied',
+        error: 'no Bitbucket credentials',
+      });
+      throw new Error(`No Bitbucket credentials for ${profile.accountId}`);
+    }
+
+    try {
+      await call(credentials);
+    } catch (error) {
+      await this.audit({
+        ...attempt,
+        outcome: 'failed',
+        error: error.response?.data?.error?.message ?? error.message,
+      });
+      throw error;
+    }
+    await this.audit({ ...attempt, outcome: 'succeeded' });
+
+    // Through the service account Bitbucket shows the bot as the actor, so
+    // the PR gets a comment naming the user. Approvals stay the bot's, and
+    // the user is still a pending reviewer for merge policies and reminders.
+    // The action already went through, so a failed comment must not turn
+    // the reply into an error.
+    const comment = credentials
+      ? reason
+      : [
+          `${SERVICE_ACCOUNT_COMMENTS[action]} по команде ${profile.displayName ?? profile.accountId}`,
+          reason,
+        ]
+          .filter(Boolean)
+          .join('\n\n');
+    if (comment) {
+      try {
+        await this.bitbucketService.commentOnPullRequest(
+          prKey,
+          comment,
+          credentials,
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Failed to comment on ${attempt.prKey} after ${action}:`,
+          error.message,
+        );
+      }
+    }
+  }
+
+  private async audit(
+    attempt: Omit<ActionAuditEntry, 'attemptedAt'>,
+  ): Promise<void> {
+    const entry: ActionAuditEntry = {
+      ...attempt,
+      attemptedAt: new Date().toISOString(),
+    };
+    await this.storage.set<ActionAuditEntry>(
+      AUDIT_COLLECTION,
+      `${entry.prKey}:${entry.attemptedAt}`,
+      entry,
+    );
+
+    if (entry.outcome === 'succeeded') {
+      this.logger.log('PR action performed from Pachka:', entry);
+    } else {
+      this.logger.warn(`PR action ${entry.outcome} from Pachka:`, entry);
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Post,
+  RawBodyRequest,
+  Req,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+import { BitbucketService } from './bitbucket.service';
+import {
+  BitbucketWebhookPayload,
+  CommitStatusWebhookPayload,
+  isCommitStatusWebhookEvent,
+  isSupportedWebhookEvent,
+} from './interfaces/webhook-event.interface';
+
+@Controller('webhooks/bitbucket')
+export class BitbucketWebhookController {
+  private readonly logger: Logger = new Logger(BitbucketWebhookController.name);
+
+  private readonly webhookSecret = this.configService.get<string>(
+    'bitbucket.webhookSecret',
+  );
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly bitbucketService: BitbucketService,
+  ) {}
+
+  @Post()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async handleWebhook(
+    @Req() request: RawBodyRequest<Request>,
+    @Headers('x-event-key') eventKey: string,
+    @Headers('x-hub-signature') signature: string,
+    @Body() payload: BitbucketWebhookPayload | CommitStatusWebhookPayload,
+  ): Promise<void> {
+    this.verifySignature(request.rawBody, signature);
+
+    if (isCommitStatusWebhookEvent(eventKey)) {
+      if (
+        !payload ||
+        !('commit_status' in payload) ||
+        !payload.commit_status?.commit ||
+        !payload.repository
+      ) {
+        throw new BadRequestException('Invalid webhook payload');
+      }
+
+      await this.bitbucketService.handleCommitStatusEvent(payload);
+      return;
+    }
+
+    if (!isSupportedWebhookEvent(eventKey)) {
+      this.logger.debug('Ignoring unsupported webhook event:', { eventKey });
+      return;
+    }
+
+    if (
+      !payload ||
+      !('pullrequest' in payload) ||
+      !payload.pullrequest ||
+      !payload.repository
+    ) {
+      throw new BadRequestException('Invalid webhook payload');
+    }
+
+    await this.bitbucketService.handleWebhookEvent(eventKey, payload);
+  }
+
+  private verifySignature(
+    rawBody: Buffer | undefined,
+    signature: string,
+  ): void {
+    if (!this.webhookSecret) {
+      this.logger.warn(
+        'Rejected webhook: BITBUCKET_WEBHOOK_SECRET is not configured',
+      );
+      throw new UnauthorizedException('Webhook secret is not configured');
+    }
+
+    if (!rawBody || !signature?.startsWith('sha256=')) {
+      throw new UnauthorizedException('Missing webhook signature');
+    }
+
+    const expected = Buffer.from(
+      `sha256=${createHmac('sha256', this.webhookSecret)
+        .update(rawBody)
+        .digest('hex')}`,
+    );
+    const received = Buffer.from(signature);
+
+    if (
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received)
+    ) {
+      this.logger.warn('Rejected webhook with invalid signature');
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+  }
+}
@@ -1,10 +1,49 @@
 import { Module } from '@nestjs/common';
 import { BitbucketService } from './bitbucket.service';
+import { BitbucketWebhookController } from './bitbucket-webhook.controller';
+import { ReviewMetricsController } from './review-metrics.controller';
 import { PachkaModule } from '../pachka/pachka.module';
+import { StorageModule } from '../storage/storage.module';
+import { WorkspaceConfigModule } from '../config/workspace-config.module';
+import { PollingStateService } from './polling/polling-state.service';
+import { ReminderService } from './reminders/reminder.service';
+import { StalePullRequestService } from './stale/stale-pull-request.service';
+import { HeldEventsService } from './quiet-hours/held-events.service';
+import { PullRequestControlsService } from './controls/pull-request-controls.service';
+import { PullRequestDiscussionService } from './discussion/pull-request-discussion.service';
+import { PullRequestActionsService } from './actions/pull-request-actions.service';
+import { WorkScheduleModule } from '../work-schedule/work-schedule.module';
+import { MergePolicyModule } from '../merge-policy/merge-policy.module';
+import { UsersModule } from '../users/users.module';
+import { ReviewerAssignmentService } from './reviewers/reviewer-assignment.service';
+import { ReviewMetricsService } from './metrics/review-metrics.service';
 
 @Module({
-  imports: [PachkaModule],
-  providers: [BitbucketService],
-  exports: [BitbucketService],
+  imports: [
+    PachkaModule,
+    StorageModule,
+    WorkspaceConfigModule,
+    WorkScheduleModule,
+    MergePolicyModule,
+    UsersModule,
+  ],
+  controllers: [BitbucketWebhookController, ReviewMetricsController],
+  providers: [
+    BitbucketService,
+    PollingStateService,
+    ReminderService,
+    StalePullRequestService,
+    HeldEventsService,
+    PullRequestControlsService,
+    PullRequestDiscussionService,
+    PullRequestActionsService,
+    ReviewerAssignmentService,
+    ReviewMetricsService,
+  ],
+  exports: [
+    BitbucketService,
+    PullRequestControlsService,
+    PullRequestActionsService,
+  ],
 })
 export class BitbucketModule {}
@@ -1,35 +1,186 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Cron, CronExpression } from '@nestjs/schedule';
-import axios, { AxiosInstance } from 'axios';
+import { Cron, CronExpression, SchedulerRegistry } from '@nestjs/schedule';
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import { CronJob } from 'cron';
 import { PachkaService } from '../pachka/pachka.service';
-import { PullRequest } from './interfaces/pull-request.interface';
-import { WorkSchedule } from './interfaces/work-schedule.config';
+import {
+  formatPullRequestKey,
+  getPullRequestKey,
+  PullRequestKey,
+} from '../pachka/store/pull-request-key';
+import { BitbucketCredentials } from '../users/interfaces/user-profile.interface';
+import {
+  PullRequestEvent,
+  PullRequestEventType,
+  ReviewerAssignment,
+} from './interfaces/pull-request-event.interface';
+import { PaginatedResponse } from './interfaces/paginated-response.interface';
+import {
+  BitbucketUser,
+  PullRequest,
+} from './interfaces/pull-request.interface';
+import {
+  BitbucketWebhookEventKey,
+  BitbucketWebhookPayload,
+  CommitStatusWebhookPayload,
+} from './interfaces/webhook-event.interface';
+import { CommitStatus } from './interfaces/commit-status.interface';
+import {
+  PullRequestComment,
+  PullRequestTask,
+} from './interfaces/pull-request-comment.interface';
+import { WorkspaceConfig } from './interfaces/workspace.config';
+import { WorkspaceConfigService } from '../config/workspace-config.service';
+import { PollingStateService } from './polling/polling-state.service';
+import { diffPullRequests } from './polling/pull-request-diff';
+import { ReminderService } from './reminders/reminder.service';
+import { HeldEventsService } from './quiet-hours/held-events.service';
+import { PullRequestControlsService } from './controls/pull-request-controls.service';
+import { StalePullRequestService } from './stale/stale-pull-request.service';
+import { PullRequestDiscussionService } from './discussion/pull-request-discussion.service';
+import { ReviewerAssignmentService } from './reviewers/reviewer-assignment.service';
+import { ReviewMetricsService } from './metrics/review-metrics.service';
+import { DiffStatEntry } from './interfaces/diffstat.interface';
+import { MergePolicyService } from '../merge-policy/merge-policy.service';
+import { BranchRestriction } from '../merge-policy/interfaces/merge-policy.interface';
+import { WorkScheduleService } from '../work-schedule/work-schedule.service';
+import { getBuildState } from './builds/build-status';
 
-interface WorkspaceConfig {
-  name: string;
-  repositories: string[];
-}
+const PULL_REQUEST_FIELDS = [
+  'id',
+  'title',
+  'draft',
+  'description',
+  'comment_count',
+  'task_count',
+  'state',
+  'created_on',
+  'updated_on',
+  'author.display_name',
+  'author.account_id',
+  'closed_by.display_name',
+  'closed_by.account_id',
+  'reviewers.display_name',
+  'reviewers.account_id',
+  'participants.user.display_name',
+  'participants.user.account_id',
+  'participants.role',
+  'participants.approved',
+  'participants.state',
+  'source.branch.name',
+  'source.commit.hash',
+  'source.repository.full_name',
+  'destination.branch.name',
+  'destination.repository.full_name',
+  'links.html.href',
+];
+
+const COMMIT_STATUS_FIELDS = [
+  'next',
+  'values.key',
+  'values.name',
+  'values.state',
+  'values.url',
+].join(',');
+
+const COMMENT_FIELDS = [
+  'next',
+  'values.id',
+  'values.content.raw',
+  'values.user.display_name',
+  'values.user.account_id',
+  'values.created_on',
+  'values.deleted',
+  'values.inline.path',
+  'values.inline.from',
+  'values.inline.to',
+  'values.parent.id',
+  'values.links.html.href',
+].join(',');
+
+const TASK_FIELDS = [
+  'next',
+  'values.id',
+  'values.content.raw',
+  'values.state',
+  'values.creator.display_name',
+  'values.creator.account_id',
+  'values.resolved_by.display_name',
+  'values.resolved_by.account_id',
+].join(',');
+
+const PULL_REQUEST_LIST_FIELDS = [
+  'next',
+  ...PULL_REQUEST_FIELDS.map((field) => `values.${field}`),
+].join(',');
+
+// Bitbucket may index an update a little after `updated_on`, so each
+// incremental poll re-reads a short window before the previous one.
+const CURSOR_OVERLAP_MS = 60 * 1000;
+
+// How long after a PR update its build is expected to show up.
+const BUILD_START_WINDOW_MS = 60 * 60 * 1000;
+
+const FULL_SWEEP_JOB_NAME = 'bitbucket-full-sweep';
+const DAILY_DIGEST_JOB_NAME = 'daily-review-digest';
+const WEEKLY_REPORT_JOB_NAME = 'weekly-review-report';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
 
 @Injectable()
-export class BitbucketService implements OnModuleInit {
+export class BitbucketService implements OnApplicationBootstrap {
   private readonly logger: Logger = new Logger(BitbucketService.name);
 
   private lastCheckedDate: Date = new Date(Date.now() - 60 * 60 * 1000);
 
   private readonly apiClient?: AxiosInstance;
 
-  private readonly workspaces: WorkspaceConfig[] = this.loadWorkspacesConfig();
+  private readonly workspaces: WorkspaceConfig[] =
+    this.workspaceConfig.workspaces;
+
+  private readonly urgentEventTypes: PullRequestEventType[] =
+    this.configService.get<PullRequestEventType[]>(
+      'quietHours.urgentEvents',
+      [],
+    );
+
+  private readonly maxPages: number = this.configService.get<number>(
+    'bitbucket.maxPages',
+    10,
+  );
+
+  private readonly buildStatusesEnabled: boolean =
+    this.configService.get<boolean>('bitbucket.buildStatuses', true);
 
-  private workSchedule?: WorkSchedule;
+  private readonly commentsEnabled: boolean = this.configService.get<boolean>(
+    'bitbucket.comments',
+    true,
+  );
+
+  // The bot's own comments, e.g. on stale PRs, are not echoed into threads.
+  private botAccountId?: string;
 
   constructor(
     private readonly configService: ConfigService,
+    private readonly workspaceConfig: WorkspaceConfigService,
     private readonly pachkaService: PachkaService,
+    private readonly pollingState: PollingStateService,
+    private readonly reminderService: ReminderService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly workSchedule: WorkScheduleService,
+    private readonly stalePullRequests: StalePullRequestService,
+    private readonly heldEvents: HeldEventsService,
+    private readonly controls: PullRequestControlsService,
+    private readonly discussions: PullRequestDiscussionService,
+    private readonly reviewerAssignment: ReviewerAssignmentService,
+    private readonly mergePolicy: MergePolicyService,
+    private readonly reviewMetrics: ReviewMetricsService,
   ) {
-    this.loadWorkScheduleConfig();
     this.apiClient = axios.create({
       baseURL: this.configService.get('bitbucket.apiUrl'),
+      // Bitbucket expects repeated parameters as `state=OPEN&state=MERGED`.
+      paramsSerializer: { indexes: null },
       auth: {
         username: this.configService.get('bitbucket.username'),
         password: this.configService.get('bitbucket.appPassword'),
@@ -40,97 +191,181 @@ export class BitbucketService implements OnModuleInit {
     });
   }
 
-  private loadWorkspacesConfig(): WorkspaceConfig[] {
-    const workspacesConfig = this.configService.get<string>(
-      'bitbucket.workspaces',
-    );
+  // Runs after every module's onModuleInit, so the message store has been
+  // migrated and the queue restored before the startup sync posts anything.
+  async onApplicationBootstrap(): Promise<void> {
+    this.logger.log('Initializing BitbucketService...');
+
     try {
-      return JSON.parse(workspacesConfig);
+      for (const workspace of this.workspaces) {
+        await this.validateCredentials(workspace.name);
+      }
+      this.logger.log('Successfully connected to Bitbucket API');
+
+      if (this.commentsEnabled) {
+        await this.loadBotAccountId();
+      }
+
+      await this.pachkaService.sendStartupMessage();
+      this.logger.log('Sent startup message to Pachka');
+
+      const storedCursor = await this.pollingState.getLastCheckedDate();
+      if (storedCursor) {
+        this.lastCheckedDate = storedCursor;
+      }
+
+      const syncStartedAt = new Date();
+      await this.syncAllRepositories();
+      await this.advanceCursor(syncStartedAt);
+
+      this.scheduleFullSweep();
+      this.scheduleDailyDigest();
+      this.scheduleWeeklyReport();
+      this.logger.log('Initialization complete');
     } catch (error) {
-      this.logger.error('Failed to parse workspaces configuration', error);
-      return [];
+      const errorMessage = `Failed to initialize BitbucketService: ${error.message}`;
+      this.logger.error(errorMessage);
+      await this.pachkaService.sendError(new Error(errorMessage));
+      throw error;
     }
   }
 
-  private loadWorkScheduleConfig(): void {
-    this.workSchedule = {
-      workDays: this.configService.get<number[]>(
-        'workSchedule.workDays',
-        [1, 2, 3, 4, 5],
-      ), // Mon-Fri by default
-      workHours: {
-        start: this.configService.get<number>('workSchedule.startHour', 10), // 10 AM by default
-        end: this.configService.get<number>('workSchedule.endHour', 18), // 6 PM by default
-      },
-      timezone: this.configService.get<string>(
-        'workSchedule.timezone',
-        'Europe/Moscow',
-      ),
-    };
+  private scheduleFullSweep(): void {
+    const cronTime = this.configService.get<string>(
+      'bitbucket.fullSweepCron',
+      CronExpression.EVERY_HOUR,
+    );
+    const job = new CronJob(
+      cronTime,
+      () => this.runFullSweep(),
+      null,
+      false,
+      this.workSchedule.schedule.timezone,
+    );
 
-    this.logger.log('Work schedule initialized:', {
-      workDays: this.workSchedule.workDays,
-      workHours: this.workSchedule.workHours,
-      timezone: this.workSchedule.timezone,
-    });
+    this.schedulerRegistry.addCronJob(FULL_SWEEP_JOB_NAME, job);
+    job.start();
+
+    this.logger.log('Full sweep scheduled:', { cronTime });
   }
 
-  private isWorkingHours(): boolean {
-    const now = new Date().toLocaleString('en-US', {
-      timeZone: this.workSchedule.timezone,
-    });
-    const currentDate = new Date(now);
+  async runFullSweep(): Promise<void> {
+    try {
+      await this.syncAllRepositories();
+    } catch (error) {
+      const errorMessage = `Failed to run full pull request sweep: ${error.message}`;
+      this.logger.error(errorMessage);
+      await this.pachkaService.sendError(new Error(errorMessage));
+    }
+  }
 
-    const currentDay = currentDate.getDay();
-    if (!this.workSchedule.workDays.includes(currentDay)) {
-      this.logger.debug('Current day is not a work day:', {
-        currentDay,
-        workDays: this.workSchedule.workDays,
-      });
-      return false;
+  private scheduleDailyDigest(): void {
+    if (!this.configService.get<boolean>('digest.enabled', true)) {
+      this.logger.log('Daily digest disabled');
+      return;
     }
 
-    const currentHour = currentDate.getHours();
-    const isWorkHour =
-      currentHour >= this.workSchedule.workHours.start &&
-      currentHour < this.workSchedule.workHours.end;
+    // Start of the work day unless overridden; runs daily because holidays
+    // and moved working days are checked when the job fires.
+    const dayStart = this.workSchedule.schedule.workHours[0].start;
+    const cronTime =
+      this.configService.get<string>('digest.cron') ||
+      `${dayStart % 60} ${Math.floor(dayStart / 60)} * * *`;
+    const job = new CronJob(
+      cronTime,
+      () => this.sendDailyDigest(),
+      null,
+      false,
+      this.workSchedule.schedule.timezone,
+    );
 
-    this.logger.debug('Work hours check:', {
-      currentHour,
-      workHours: this.workSchedule.workHours,
-      isWorkHour,
-    });
+    this.schedulerRegistry.addCronJob(DAILY_DIGEST_JOB_NAME, job);
+    job.start();
 
-    return isWorkHour;
+    this.logger.log('Daily digest scheduled:', { cronTime });
   }
 
-  async onModuleInit(): Promise<void> {
-    this.logger.log('Initializing BitbucketService...');
+  async sendDailyDigest(): Promise<void> {
+    if (!this.workSchedule.isWorkingDay(this.workSchedule.getToday())) {
+      this.logger.debug('Not a work day, skipping daily digest');
+      return;
+    }
 
     try {
+      const openPRs: PullRequest[] = [];
       for (const workspace of this.workspaces) {
-        await this.validateCredentials(workspace.name);
+        for (const { name: repository } of workspace.repositories) {
+          openPRs.push(
+            ...(await this.getOpenPullRequests(workspace.name, repository)),
+          );
+        }
       }
-      this.logger.log('Successfully connected to Bitbucket API');
 
-      await this.pachkaService.sendStartupMessage();
-      this.logger.log('Sent startup message to Pachka');
+      await this.pachkaService.sendDailyDigest(openPRs);
+      this.logger.log(`Sent daily digest for ${openPRs.length} open PRs`);
+    } catch (error) {
+      const errorMessage = `Failed to send daily digest: ${error.message}`;
+      this.logger.error(errorMessage);
+      await this.pachkaService.sendError(new Error(errorMessage));
+    }
+  }
+
+  private scheduleWeeklyReport(): void {
+    if (!this.reviewMetrics.enabled) {
+      this.logger.log('Review metrics disabled');
+      return;
+    }
 
-      await this.processAllRepositories();
+    const dayStart = this.workSchedule.schedule.workHours[0].start;
+    const cronTime =
+      this.configService.get<string>('metrics.reportCron') ||
+      `${dayStart % 60} ${Math.floor(dayStart / 60)} * * 1`;
+    const job = new CronJob(
+      cronTime,
+      () => this.sendWeeklyReport(),
+      null,
+      false,
+      this.workSchedule.schedule.timezone,
+    );
 
-      this.lastCheckedDate = new Date();
-      this.logger.log('Initialization complete');
+    this.schedulerRegistry.addCronJob(WEEKLY_REPORT_JOB_NAME, job);
+    job.start();
+
+    this.logger.log('Weekly review report scheduled:', { cronTime });
+  }
+
+  // Covers the seven days before the report.
+  async sendWeeklyReport(): Promise<void> {
+    try {
+      const to = new Date();
+      const reports = await this.reviewMetrics.getReports(
+        new Date(to.getTime() - WEEK_MS),
+        to,
+      );
+      for (const [chatId, report] of reports) {
+        await this.pachkaService.sendReviewReport(chatId, report);
+      }
+      this.logger.log(`Sent weekly review report to ${reports.size} chats`);
+
+      await this.reviewMetrics.prune(to);
     } catch (error) {
-      const errorMessage = `Failed to initialize BitbucketService: ${error.message}`;
+      const errorMessage = `Failed to send weekly review report: ${error.message}`;
       this.logger.error(errorMessage);
       await this.pachkaService.sendError(new Error(errorMessage));
-      throw error;
     }
   }
 
-  private async processAllRepositories(): Promise<void> {
+  // Reconciles every open PR against its snapshot and drops stored PRs that
+  // were closed without us noticing.
+  private async syncAllRepositories(): Promise<void> {
+    const storedPRs = await this.pachkaService.getAllStoredPRs();
+
     for (const workspace of this.workspaces) {
-      for (const repository of workspace.repositories) {
+      for (const { name: repository } of workspace.repositories) {
+        if (this.mergePolicy.usesBranchRestrictions) {
+          await this.loadBranchRestrictions(workspace.name, repository);
+        }
+
         try {
           const openPRs = await this.getOpenPullRequests(
             workspace.name,
@@ -140,15 +375,47 @@ export class BitbucketService implements OnModuleInit {
             `Found ${openPRs.length} open PRs in ${workspace.name}/${repository}`,
           );
 
+          const activePRKeys = new Set<string>();
           for (const pr of openPRs) {
-            await this.pachkaService.sendPullRequestNotification(pr);
-            this.logger.debug(
-              `Processed PR #${pr.id} in ${workspace.name}/${repository}:`,
-              {
-                title: pr.title,
-                reviewers: pr.reviewers.length,
-              },
-            );
+            activePRKeys.add(formatPullRequestKey(getPullRequestKey(pr)));
+            await this.processPullRequestUpdate(pr);
+          }
+
+          const repositoryStoredPRs = storedPRs.filter(
+            (pr) =>
+              pr.workspace === workspace.name && pr.repository === repository,
+          );
+
+          for (const storedPR of repositoryStoredPRs) {
+            if (!activePRKeys.has(storedPR.key)) {
+              try {
+                const pr = await this.getPullRequest(
+                  workspace.name,
+                  repository,
+                  storedPR.prId,
+                );
+
+                if (pr) {
+                  await this.processPullRequestUpdate(pr);
+                } else {
+                  await this.pachkaService.removeFromStore(storedPR);
+                  await this.pollingState.removeSnapshot(storedPR);
+                  await this.reminderService.clear(storedPR);
+                  await this.stalePullRequests.clear(storedPR);
+                  await this.controls.clear(storedPR);
+                  await this.discussions.clear(storedPR);
+                  await this.reviewMetrics.clear(storedPR);
+                  this.logger.debug(
+                    `Removed deleted PR ${storedPR.key} from store`,
+                  );
+                }
+              } catch (error) {
+                this.logger.error(
+                  `Failed to check PR status ${storedPR.key}:`,
+                  error.message,
+                );
+              }
+            }
           }
         } catch (error) {
           this.logger.error(
@@ -160,44 +427,633 @@ export class BitbucketService implements OnModuleInit {
     }
   }
 
+  // Diffs the PR against its stored snapshot and posts only the events that
+  // actually happened since the previous snapshot.
+  private async processPullRequestUpdate(
+    fetchedPR: PullRequest,
+    actor?: BitbucketUser,
+  ): Promise<void> {
+    const prKey = getPullRequestKey(fetchedPR);
+    const previous = await this.pollingState.getSnapshot(prKey);
+    const discussion = await this.getDiscussion(
+      await this.withBuildState(fetchedPR, previous),
+      previous,
+    );
+    let pr = discussion.pr;
+    let events = [
+      ...diffPullRequests(previous, pr, actor),
+      ...discussion.events,
+    ];
+
+    // Drafts stay quiet until they are marked ready, which is announced like
+    // a new PR if the draft was never posted.
+    if (pr.state === 'OPEN' && this.controls.isDraft(pr)) {
+      events = [];
+    } else if (
+      pr.state === 'OPEN' &&
+      previous &&
+      this.controls.isDraft(previous)
+    ) {
+      events = [
+        { type: 'ready_for_review', user: actor ?? pr.author },
+        ...events,
+      ];
+    }
+
+    if (
+      events.some(
+        (event) => event.type === 'opened' || event.type === 'ready_for_review',
+      )
+    ) {
+      const assigned = await this.autoAssignReviewers(pr);
+      if (assigned) {
+        pr = assigned.pr;
+        events = [
+          ...events,
+          { type: 'reviewers_assigned', assignments: assigned.assignments },
+        ];
+      }
+    }
+
+    if (events.length > 0) {
+      await this.reviewMetrics.record(pr, events);
+    }
+
+    if (events.length > 0) {
+      this.logger.debug('Detected PR events:', {
+        prKey: formatPullRequestKey(prKey),
+        events: events.map((event) => event.type),
+      });
+
+      await this.publishPullRequestEvents(pr, events);
+    } else if (
+      pr.state === 'OPEN' &&
+      previous &&
+      (previous.build?.status !== pr.build?.status ||
+        previous.tasks?.open !== pr.tasks?.open)
+    ) {
+      // A build that started or finished without a red/green event, or a new
+      // task, still shows up in the root message.
+      await this.pachkaService.updatePullRequestMessage(pr);
+    }
+
+    if (pr.state !== 'OPEN') {
+      // The thread is still needed for the catch-up of held events.
+      if (!(await this.heldEvents.get(prKey))) {
+        await this.pachkaService.removeFromStore(prKey);
+      }
+      await this.pollingState.removeSnapshot(prKey);
+      await this.reminderService.clear(prKey);
+      await this.stalePullRequests.clear(prKey);
+      await this.controls.clear(prKey);
+      await this.discussions.clear(prKey);
+      this.logger.debug(`Removed closed PR ${formatPullRequestKey(prKey)}`);
+      return;
+    }
+
+    await this.pollingState.saveSnapshot(prKey, pr);
+  }
+
+  // PRs that come up for review without reviewers get them from the
+  // repository's auto-assign policy. Returns the PR with the new reviewers,
+  // which are announced in its thread along with the other events.
+  private async autoAssignReviewers(
+    pr: PullRequest,
+  ): Promise<{ pr: PullRequest; assignments: ReviewerAssignment[] } | null> {
+    const prKey = getPullRequestKey(pr);
+    const policy = this.reviewerAssignment.getPolicy(
+      this.workspaceConfig.findRepositoryConfig(
+        prKey.workspace,
+        prKey.repository,
+      ),
+    );
+    if (!policy.enabled || pr.state !== 'OPEN' || pr.reviewers.length > 0) {
+      return null;
+    }
+
+    try {
+      const assignments = this.reviewerAssignment.pickReviewers(
+        pr,
+        await this.getChangedFiles(pr),
+        await this.getTrackedOpenPullRequests(),
+        policy,
+      );
+      if (assignments.length === 0) {
+        this.logger.warn(
+          `No available reviewers to assign to PR ${formatPullRequestKey(prKey)}`,
+        );
+        return null;
+      }
+
+      await this.apiClient.put(
+        this.getPullRequestPath(prKey),
+        {
+          title: pr.title,
+          reviewers: assignments.map(({ reviewer }) => ({
+            account_id: reviewer.account_id,
+          })),
+        },
+        { params: { fields: 'id' } },
+      );
+      const updated = await this.getPullRequest(
+        prKey.workspace,
+        prKey.repository,
+        prKey.prId,
+      );
+      const assigned = { ...(updated ?? pr), build: pr.build, tasks: pr.tasks };
+
+      this.logger.log(
+        `Assigned reviewers to PR ${formatPullRequestKey(prKey)}`,
+        {
+          reviewers: assignments.map(({ reviewer }) => reviewer.account_id),
+        },
+      );
+
+      // Bitbucket knows the reviewers' actual display names.
+      return {
+        pr: assigned,
+        assignments: assignments.map((assignment) => ({
+          ...assignment,
+          reviewer:
+            assigned.reviewers.find(
+              (r) => r.account_id === assignment.reviewer.account_id,
+            ) ?? assignment.reviewer,
+        })),
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to assign reviewers to PR ${formatPullRequestKey(prKey)}:`,
+        error.message,
+      );
+      return null;
+    }
+  }
+
+  // Needs repository admin access; without it the configured policy applies.
+  private async loadBranchRestrictions(
+    workspace: string,
+    repository: string,
+  ): Promise<void> {
+    try {
+      const restrictions = await this.fetchAllPages<BranchRestriction>(
+        `/repositories/${workspace}/${repository}/branch-restrictions`,
+        {
+          fields:
+            'next,values.kind,values.branch_match_kind,values.pattern,values.value',
+          pagelen: 100,
+        },
+      );
+      this.mergePolicy.setBranchRestrictions(
+        workspace,
+        repository,
+        restrictions,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to load branch restrictions of ${workspace}/${repository}:`,
+        error.message,
+      );
+    }
+  }
+
+  private async getChangedFiles(pr: PullRequest): Promise<string[]> {
+    const entries = await this.fetchAllPages<DiffStatEntry>(
+      `${this.getPullRequestPath(getPullRequestKey(pr))}/diffstat`,
+      { fields: 'next,values.status,values.old.path,values.new.path' },
+    );
+    return entries
+      .map((entry) => entry.new?.path ?? entry.old?.path)
+      .filter(Boolean);
+  }
+
+  // Open PRs get the build state of their source commit; if the statuses
+  // cannot be fetched the previous state is kept.
+  private async withBuildState(
+    pr: PullRequest,
+    previous: PullRequest | null,
+  ): Promise<PullRequest> {
+    const hash = pr.source.commit?.hash;
+    if (!this.buildStatusesEnabled || pr.state !== 'OPEN' || !hash) {
+      return pr;
+    }
+
+    // Statuses belong to the repository the commit lives in, which is the
+    // fork for PRs from forks.
+    const repository = pr.source.repository.full_name;
+    try {
+      const statuses = await this.fetchAllPages<CommitStatus>(
+        `/repositories/${repository}/commit/${hash}/statuses`,
+        { fields: COMMIT_STATUS_FIELDS, pagelen: 100 },
+      );
+      return { ...pr, build: getBuildState(statuses, hash, previous?.build) };
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch commit statuses for ${repository}@${hash}:`,
+        error.message,
+      );
+      return { ...pr, build: previous?.build };
+    }
+  }
+
+  // Comments and tasks are re-read only when the PR changed; new comments
+  // and tasks also change its counters. The tasks summary is kept on the PR.
+  private async getDiscussion(
+    pr: PullRequest,
+    previous: PullRequest | null,
+  ): Promise<{ pr: PullRequest; events: PullRequestEvent[] }> {
+    if (!this.commentsEnabled || pr.state !== 'OPEN') {
+      return { pr, events: [] };
+    }
+
+    if (
+      previous?.updated_on === pr.updated_on &&
+      previous.comment_count === pr.comment_count &&
+      previous.task_count === pr.task_count
+    ) {
+      return { pr: { ...pr, tasks: previous.tasks }, events: [] };
+    }
+
+    const prKey = getPullRequestKey(pr);
+    const url = this.getPullRequestPath(prKey);
+    try {
+      const comments = await this.fetchAllPages<PullRequestComment>(
+        `${url}/comments`,
+        { fields: COMMENT_FIELDS, pagelen: 100 },
+      );
+      const tasks = await this.fetchAllPages<PullRequestTask>(`${url}/tasks`, {
+        fields: TASK_FIELDS,
+        pagelen: 100,
+      });
+      const activity = await this.discussions.getNewActivity(
+        prKey,
+        comments,
+        tasks,
+      );
+      const openTasks = tasks.filter(
+        (task) => task.state === 'UNRESOLVED',
+      ).length;
+
+      const events: PullRequestEvent[] = activity.comments
+        .filter((comment) => comment.user.account_id !== this.botAccountId)
+        .map((comment) => ({
+          type: 'comment_added',
+          user: comment.user,
+          comment,
+        }));
+      if (activity.resolvedTasks.length > 0) {
+        events.push({
+          type: 'tasks_resolved',
+          tasks: activity.resolvedTasks,
+          openTasks,
+        });
+      }
+
+      return {
+        pr: {
+          ...pr,
+          tasks: { open: openTasks, resolved: tasks.length - openTasks },
+        },
+        events,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch comments and tasks of PR ${formatPullRequestKey(prKey)}:`,
+        error.message,
+      );
+      // Keeping the previous counters makes the next poll try again.
+      return {
+        pr: {
+          ...pr,
+          comment_count: previous?.comment_count,
+          task_count: previous?.task_count,
+          tasks: previous?.tasks,
+        },
+        events: [],
+      };
+    }
+  }
+
+  // Builds start and finish without the PR being updated, so on top of the
+  // commit status webhooks each poll re-checks running builds and recently
+  // updated PRs whose commit has no statuses yet.
+  private async refreshRunningBuilds(): Promise<void> {
+    if (!this.buildStatusesEnabled) {
+      return;
+    }
+
+    const recentSince = Date.now() - BUILD_START_WINDOW_MS;
+    const snapshots = await this.pollingState.getAllSnapshots();
+    for (const pr of snapshots) {
+      if (
+        pr.state === 'OPEN' &&
+        (pr.build?.status === 'in_progress' ||
+          (!pr.build?.status &&
+            new Date(pr.updated_on).getTime() > recentSince))
+      ) {
+        try {
+          await this.processPullRequestUpdate(pr);
+        } catch (error) {
+          this.logger.error(
+            `Failed to refresh build of PR ${formatPullRequestKey(getPullRequestKey(pr))}:`,
+            error.message,
+          );
+        }
+      }
+    }
+  }
+
+  // Outside working hours, and while the PR is snoozed, only urgent events are
+  // posted right away; the rest is held and posted as one catch-up per PR
+  // later. Muted PRs only report being closed.
+  private async publishPullRequestEvents(
+    pr: PullRequest,
+    allEvents: PullRequestEvent[],
+  ): Promise<void> {
+    const prKey = getPullRequestKey(pr);
+    const events = (await this.controls.isMuted(prKey))
+      ? allEvents.filter((event) => event.type === 'closed')
+      : allEvents;
+    if (events.length === 0) {
+      this.logger.debug(
+        `Skipping events for muted PR ${formatPullRequestKey(prKey)}`,
+      );
+      return;
+    }
+
+    const isSnoozed = await this.controls.isSnoozed(prKey);
+    if (this.workSchedule.isWorkingHours() && !isSnoozed) {
+      const held = await this.heldEvents.get(prKey);
+      if (held) {
+        await this.pachkaService.sendPullRequestCatchUp(pr, [
+          ...held.events,
+          ...events,
+        ]);
+        await this.heldEvents.remove(prKey);
+      } else {
+        await this.pachkaService.sendPullRequestEvents(pr, events);
+      }
+      return;
+    }
+
+    const urgentEvents = events.filter((event) =>
+      this.urgentEventTypes.includes(event.type),
+    );
+    if (urgentEvents.length > 0) {
+      await this.pachkaService.sendPullRequestEvents(pr, urgentEvents);
+    }
+
+    const heldEvents = events.filter((event) => !urgentEvents.includes(event));
+    if (heldEvents.length > 0) {
+      await this.heldEvents.hold(prKey, pr, heldEvents);
+      this.logger.debug('Holding PR events:', {
+        prKey: formatPullRequestKey(prKey),
+        events: heldEvents.map((event) => event.type),
+        isSnoozed,
+      });
+    }
+  }
+
+  private async deliverHeldEvents(): Promise<void> {
+    for (const held of await this.heldEvents.getAll()) {
+      const prKey = getPullRequestKey(held.pr);
+      try {
+        if (await this.controls.isSnoozed(prKey)) {
+          continue;
+        }
+
+        // The PR may have been muted while its events were held.
+        const events = (await this.controls.isMuted(prKey))
+          ? held.events.filter((event) => event.type === 'closed')
+          : held.events;
+        if (events.length > 0) {
+          await this.pachkaService.sendPullRequestCatchUp(held.pr, events);
+        }
+        await this.heldEvents.remove(prKey);
+        if (held.pr.state !== 'OPEN') {
+          await this.pachkaService.removeFromStore(prKey);
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to deliver held events for PR ${formatPullRequestKey(prKey)}:`,
+          error.message,
+        );
+      }
+    }
+  }
+
+  private async sendDueReminders(): Promise<void> {
+    const now = new Date();
+    const snapshots = await this.pollingState.getAllSnapshots();
+
+    for (const pr of snapshots) {
+      // Once the merge policy is met nobody is reminded any more.
+      if (
+        pr.state !== 'OPEN' ||
+        this.mergePolicy.getPendingReviewers(pr).length === 0
+      ) {
+        continue;
+      }
+
+      const prKey = getPullRequestKey(pr);
+      if (!(await this.controls.canRemind(pr, now))) {
+        continue;
+      }
+
+      const policy = this.reminderService.getPolicy(
+        this.workspaceConfig.findRepositoryConfig(
+          prKey.workspace,
+          prKey.repository,
+        ),
+      );
+      // PRs without any build statuses are not held back, nor are new
+      // commits whose build has not reported yet.
+      if (
+        policy.waitForGreenBuild &&
+        pr.build?.status &&
+        pr.build.status !== 'passed'
+      ) {
+        continue;
+      }
+
+      const due = await this.reminderService.getDueReminder(
+        prKey,
+        pr,
+        policy,
+        now,
+      );
+      if (!due) {
+        continue;
+      }
+
+      const sent = await this.pachkaService.sendReviewReminder(
+        pr,
+        due.reminderCount,
+        due.escalated,
+      );
+      if (sent) {
+        await this.reminderService.markReminded(prKey, due.reminderCount, now);
+        this.logger.debug(
+          `Sent reminder #${due.reminderCount} for PR ${formatPullRequestKey(prKey)}`,
+          { escalated: due.escalated },
+        );
+      }
+    }
+  }
+
+  private async sendStaleEscalations(): Promise<void> {
+    const now = new Date();
+    const snapshots = await this.pollingState.getAllSnapshots();
+
+    for (const pr of snapshots) {
+      if (pr.state !== 'OPEN') {
+        continue;
+      }
+
+      const prKey = getPullRequestKey(pr);
+      if (!(await this.controls.canRemind(pr, now))) {
+        continue;
+      }
+
+      const policy = this.stalePullRequests.getPolicy(
+        this.workspaceConfig.findRepositoryConfig(
+          prKey.workspace,
+          prKey.repository,
+        ),
+      );
+      const escalation = await this.stalePullRequests.getEscalation(
+        prKey,
+        pr,
+        policy,
+        now,
+      );
+      if (!escalation) {
+        continue;
+      }
+
+      const sent = await this.pachkaService.sendStaleEscalation(
+        pr,
+        escalation.idleWorkingHours,
+        policy.teamLead,
+      );
+      if (!sent) {
+        continue;
+      }
+
+      if (policy.commentOnPullRequest) {
+        try {
+          await this.commentOnPullRequest(
+            prKey,
+            `⚠️ Нет активности ${Math.floor(escalation.idleWorkingHours)} рабочих часов. Пожалуйста, завершите ревью или закройте PR.`,
+          );
+        } catch (error) {
+          this.logger.error(
+            `Failed to comment on stale PR ${formatPullRequestKey(prKey)}:`,
+            error.message,
+          );
+        }
+      }
+
+      // Recorded after the comment, which updates the PR in Bitbucket.
+      await this.stalePullRequests.markEscalated(prKey, pr);
+      this.logger.debug(`Escalated stale PR ${formatPullRequestKey(prKey)}`, {
+        idleWorkingHours: escalation.idleWorkingHours,
+      });
+    }
+  }
+
+  // Write calls act as the user with the given credentials, or as the bot's
+  // own account without them.
+  async commentOnPullRequest(
+    key: PullRequestKey,
+    text: string,
+    credentials?: BitbucketCredentials,
+  ): Promise<void> {
+    await this.apiClient.post(
+      `${this.getPullRequestPath(key)}/comments`,
+      { content: { raw: text } },
+      this.getAuthConfig(credentials),
+    );
+  }
+
+  async approvePullRequest(
+    key: PullRequestKey,
+    credentials?: BitbucketCredentials,
+  ): Promise<void> {
+    await this.apiClient.post(
+      `${this.getPullRequestPath(key)}/approve`,
+      null,
+      this.getAuthConfig(credentials),
+    );
+  }
+
+  async requestChanges(
+    key: PullRequestKey,
+    credentials?: BitbucketCredentials,
+  ): Promise<void> {
+    await this.apiClient.post(
+      `${this.getPullRequestPath(key)}/request-changes`,
+      null,
+      this.getAuthConfig(credentials),
+    );
+  }
+
+  // Without a strategy the repository's default merge strategy is used.
+  async mergePullRequest(
+    key: PullRequestKey,
+    mergeStrategy?: string,
+    credentials?: BitbucketCredentials,
+  ): Promise<void> {
+    await this.apiClient.post(
+      `${this.getPullRequestPath(key)}/merge`,
+      { type: 'pullrequest', merge_strategy: mergeStrategy },
+      this.getAuthConfig(credentials),
+    );
+  }
+
+  private getPullRequestPath(key: PullRequestKey): string {
+    return `/repositories/${key.workspace}/${key.repository}/pullrequests/${key.prId}`;
+  }
+
+  private getAuthConfig(
+    credentials?: BitbucketCredentials,
+  ): AxiosRequestConfig | undefined {
+    return credentials
+      ? {
+          auth: {
+            username: credentials.username,
+            password: credentials.password,
+          },
+        }
+      : undefined;
+  }
+
+  // Open PRs as of the last poll, without calling the Bitbucket API.
+  async getTrackedOpenPullRequests(): Promise<PullRequest[]> {
+    const snapshots = await this.pollingState.getAllSnapshots();
+    return snapshots.filter((pr) => pr.state === 'OPEN');
+  }
+
+  private async advanceCursor(pollStartedAt: Date): Promise<void> {
+    this.lastCheckedDate = new Date(
+      pollStartedAt.getTime() - CURSOR_OVERLAP_MS,
+    );
+    await this.pollingState.setLastCheckedDate(this.lastCheckedDate);
+  }
+
   private async getOpenPullRequests(
     workspace: string,
     repository: string,
   ): Promise<PullRequest[]> {
     try {
-      const response = await this.apiClient.get<{ values: PullRequest[] }>(
+      return await this.fetchAllPages<PullRequest>(
         `/repositories/${workspace}/${repository}/pullrequests`,
         {
-          params: {
-            fields: [
-              'values.id',
-              'values.title',
-              'values.description',
-              'values.state',
-              'values.created_on',
-              'values.updated_on',
-              'values.author.display_name',
-              'values.author.account_id',
-              'values.reviewers.display_name',
-              'values.reviewers.account_id',
-              'values.participants.user.display_name',
-              'values.participants.user.account_id',
-              'values.participants.role',
-              'values.participants.approved',
-              'values.participants.state',
-              'values.source.branch.name',
-              'values.source.repository.full_name',
-              'values.destination.branch.name',
-              'values.links.html.href',
-            ].join(','),
-            state: 'OPEN',
-            sort: '-updated_on',
-            pagelen: 50,
-          },
+          fields: PULL_REQUEST_LIST_FIELDS,
+          state: 'OPEN',
+          sort: '-updated_on',
+          pagelen: 50,
         },
       );
-
-      return response.data.values;
     } catch (error) {
       this.logger.error(
         `Failed to fetch pull requests for ${workspace}/${repository}`,
@@ -207,6 +1063,69 @@ export class BitbucketService implements OnModuleInit {
     }
   }
 
+  private async getUpdatedPullRequests(
+    workspace: string,
+    repository: string,
+    since: Date,
+  ): Promise<PullRequest[]> {
+    return this.fetchAllPages<PullRequest>(
+      `/repositories/${workspace}/${repository}/pullrequests`,
+      {
+        fields: PULL_REQUEST_LIST_FIELDS,
+        q: `updated_on > ${since.toISOString()}`,
+        state: ['OPEN', 'MERGED', 'DECLINED', 'SUPERSEDED'],
+        sort: '-updated_on',
+        pagelen: 50,
+      },
+    );
+  }
+
+  // Follows `next` links up to `maxPages`; a `fields` filter must include `next`.
+  private async fetchAllPages<T>(
+    url: string,
+    params: Record<string, unknown> = {},
+  ): Promise<T[]> {
+    const values: T[] = [];
+    let nextUrl: string | undefined = url;
+    let requestParams: Record<string, unknown> | undefined = params;
+    let page = 0;
+
+    while (nextUrl) {
+      if (page >= this.maxPages) {
+        this.logger.warn(
+          `Stopped paging ${url} after ${this.maxPages} pages, results are incomplete`,
+        );
+        break;
+      }
+
+      const response = await this.apiClient.get<PaginatedResponse<T>>(nextUrl, {
+        params: requestParams,
+      });
+      values.push(...(response.data.values ?? []));
+
+      // `next` is an absolute URL that already carries the query parameters.
+      nextUrl = response.data.next;
+      requestParams = undefined;
+      page++;
+    }
+
+    return values;
+  }
+
+  private async loadBotAccountId(): Promise<void> {
+    try {
+      const response = await this.apiClient.get<BitbucketUser>('/user', {
+        params: { fields: 'account_id' },
+      });
+      this.botAccountId = response.data.account_id;
+    } catch (error) {
+      this.logger.warn(
+        'Failed to resolve the bot Bitbucket account, its own comments will be posted too:',
+        error.message,
+      );
+    }
+  }
+
   private async validateCredentials(workspace: string): Promise<void> {
     try {
       await this.apiClient.get(`/workspaces/${workspace}`);
@@ -219,72 +1138,56 @@ export class BitbucketService implements OnModuleInit {
 
   @Cron(CronExpression.EVERY_10_MINUTES)
   async checkPullRequests(): Promise<void> {
-    if (!this.isWorkingHours()) {
-      this.logger.debug('Outside of work hours, skipping PR check');
-      return;
-    }
+    // State is tracked around the clock; chat output is limited to working
+    // hours by publishPullRequestEvents.
+    const isWorkingHours = this.workSchedule.isWorkingHours();
 
     try {
-      this.logger.debug('Checking PRs with date:', {
+      if (isWorkingHours) {
+        await this.deliverHeldEvents();
+      }
+
+      this.logger.debug('Checking PRs updated since:', {
         lastChecked: this.lastCheckedDate.toISOString(),
       });
 
-      const storedPRs = await this.pachkaService.getAllStoredPRs();
-      const activePRIds = new Set<string>();
+      const pollStartedAt = new Date();
+      let failedRepositories = 0;
 
       for (const workspace of this.workspaces) {
-        for (const repository of workspace.repositories) {
-          const openPRs = await this.getOpenPullRequests(
-            workspace.name,
-            repository,
-          );
+        for (const { name: repository } of workspace.repositories) {
+          try {
+            const updatedPRs = await this.getUpdatedPullRequests(
+              workspace.name,
+              repository,
+              this.lastCheckedDate,
+            );
 
-          for (const pr of openPRs) {
-            activePRIds.add(pr.id.toString());
-            const hasUnreviewedChanges = this.hasPendingReviewers(pr);
-
-            if (hasUnreviewedChanges) {
-              await this.pachkaService.sendPullRequestNotification(pr);
-              this.logger.debug(
-                `Sent reminder for PR #${pr.id} in ${workspace.name}/${repository}`,
-              );
+            for (const pr of updatedPRs) {
+              await this.processPullRequestUpdate(pr);
             }
+          } catch (error) {
+            failedRepositories++;
+            this.logger.error(
+              `Failed to check updated PRs in ${workspace.name}/${repository}:`,
+              error.message,
+            );
           }
+        }
+      }
 
-          const repositoryStoredPRs = storedPRs.filter(
-            (pr) => pr.repository === repository,
-          );
+      // Keep the old cursor when a repository failed, so its changes are
+      // picked up by the next poll instead of being skipped.
+      if (failedRepositories === 0) {
+        await this.advanceCursor(pollStartedAt);
+      }
 
-          for (const storedPR of repositoryStoredPRs) {
-            if (!activePRIds.has(storedPR.prId)) {
-              try {
-                const prStatus = await this.getPRStatus(
-                  workspace.name,
-                  repository,
-                  storedPR.prId,
-                );
+      await this.refreshRunningBuilds();
 
-                if (prStatus !== 'OPEN') {
-                  await this.pachkaService.removeFromStore(
-                    storedPR.prId,
-                    repository,
-                  );
-                  this.logger.debug(
-                    `Removed closed PR #${storedPR.prId} from store for ${repository}`,
-                  );
-                }
-              } catch (error) {
-                this.logger.error(
-                  `Failed to check PR status #${storedPR.prId} in ${repository}:`,
-                  error.message,
-                );
-              }
-            }
-          }
-        }
+      if (isWorkingHours) {
+        await this.sendDueReminders();
+        await this.sendStaleEscalations();
       }
-
-      this.lastCheckedDate = new Date();
     } catch (error) {
       const errorMessage = `Failed to check pull requests: ${error.message}`;
       this.logger.error(errorMessage);
@@ -292,37 +1195,102 @@ export class BitbucketService implements OnModuleInit {
     }
   }
 
-  private async getPRStatus(
+  async handleWebhookEvent(
+    eventKey: BitbucketWebhookEventKey,
+    payload: BitbucketWebhookPayload,
+  ): Promise<void> {
+    const pr = payload.pullrequest;
+    const repository = payload.repository.full_name;
+
+    if (!this.isTrackedRepository(repository)) {
+      this.logger.debug('Ignoring webhook for untracked repository:', {
+        eventKey,
+        repository,
+      });
+      return;
+    }
+
+    this.logger.debug('Received webhook event:', {
+      eventKey,
+      prId: pr.id,
+      repository,
+      actor: payload.actor?.display_name,
+    });
+
+    try {
+      await this.processPullRequestUpdate(pr, payload.actor);
+    } catch (error) {
+      const errorMessage = `Failed to handle webhook event ${eventKey} for PR #${pr.id}: ${error.message}`;
+      this.logger.error(errorMessage);
+      await this.pachkaService.sendError(new Error(errorMessage));
+    }
+  }
+
+  // Re-evaluates the open PRs whose source commit the status belongs to.
+  async handleCommitStatusEvent(
+    payload: CommitStatusWebhookPayload,
+  ): Promise<void> {
+    const repository = payload.repository.full_name;
+    const hash = payload.commit_status.commit.hash;
+
+    if (!this.buildStatusesEnabled) {
+      return;
+    }
+
+    // PRs carry the short hash of their source commit.
+    const prs = (await this.getTrackedOpenPullRequests()).filter(
+      (pr) =>
+        pr.source.repository.full_name === repository &&
+        !!pr.source.commit?.hash &&
+        hash.startsWith(pr.source.commit.hash),
+    );
+
+    this.logger.debug('Received commit status event:', {
+      repository,
+      hash,
+      state: payload.commit_status.state,
+      prIds: prs.map((pr) => pr.id),
+    });
+
+    for (const pr of prs) {
+      try {
+        await this.processPullRequestUpdate(pr);
+      } catch (error) {
+        const errorMessage = `Failed to handle commit status for PR #${pr.id}: ${error.message}`;
+        this.logger.error(errorMessage);
+        await this.pachkaService.sendError(new Error(errorMessage));
+      }
+    }
+  }
+
+  private isTrackedRepository(fullName: string): boolean {
+    const [workspaceName, repository] = fullName.split('/');
+    return !!this.workspaceConfig.findRepositoryConfig(
+      workspaceName,
+      repository,
+    );
+  }
+
+  private async getPullRequest(
     workspace: string,
     repository: string,
-    prId: string,
-  ): Promise<string> {
+    prId: number,
+  ): Promise<PullRequest | null> {
     try {
-      const response = await this.apiClient.get(
+      const response = await this.apiClient.get<PullRequest>(
         `/repositories/${workspace}/${repository}/pullrequests/${prId}`,
         {
           params: {
-            fields: 'state',
+            fields: PULL_REQUEST_FIELDS.join(','),
           },
         },
       );
-      return response.data.state;
+      return response.data;
     } catch (error) {
       if (error.response?.status === 404) {
-        return 'CLOSED';
+        return null;
       }
       throw error;
     }
   }
-
-  private hasPendingReviewers(pr: PullRequest): boolean {
-    return pr.reviewers.some((reviewer) => {
-      const participant = pr.participants.find(
-        (p) => p.user.account_id === reviewer.account_id,
-      );
-      return (
-        !participant?.approved && participant?.state !== 'changes_requested'
-      );
-    });
-  }
 }
@@ -0,0 +1,42 @@
+import {
+  BuildState,
+  BuildStatus,
+  CommitStatus,
+} from '../interfaces/commit-status.interface';
+
+// A stopped build counts as failed: it did not prove the commit is green.
+function summarizeStatuses(statuses: CommitStatus[]): BuildStatus | undefined {
+  if (statuses.length === 0) {
+    return undefined;
+  }
+  if (statuses.some((s) => s.state === 'FAILED' || s.state === 'STOPPED')) {
+    return 'failed';
+  }
+  if (statuses.some((s) => s.state === 'INPROGRESS')) {
+    return 'in_progress';
+  }
+  return 'passed';
+}
+
+// The last finished result is carried over while a new build is running, so
+// a red build that turns green after a fix can be told apart from a PR that
+// was green all along.
+export function getBuildState(
+  statuses: CommitStatus[],
+  hash: string,
+  previous?: BuildState,
+): BuildState | undefined {
+  const status = summarizeStatuses(statuses);
+  const lastResult =
+    status && status !== 'in_progress' ? status : previous?.lastResult;
+  if (!status && !lastResult) {
+    return undefined;
+  }
+
+  const link =
+    statuses.find((s) => s.state === 'FAILED' || s.state === 'STOPPED') ??
+    statuses.find((s) => s.state === 'INPROGRESS') ??
+    statuses[0];
+
+  return { hash, status, lastResult, url: link?.url };
+}
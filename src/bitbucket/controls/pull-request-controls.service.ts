@@ -0,0 +1,149 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  formatPullRequestKey,
+  getPullRequestKey,
+  PullRequestKey,
+} from '../../pachka/store/pull-request-key';
+import { KeyValueStorage } from '../../storage/interfaces/key-value-storage.interface';
+import { STORAGE } from '../../storage/storage.constants';
+import { PullRequest } from '../interfaces/pull-request.interface';
+
+// Per-PR notification controls set through bot commands.
+export interface PullRequestControls {
+  snoozedUntil?: string; // events are held and reminders skipped until then
+  muted?: boolean; // nothing but the closing of the PR is posted
+  labels?: string[];
+}
+
+const PULL_REQUEST_COLLECTION = 'pull-request-controls';
+const REPOSITORY_COLLECTION = 'repository-controls';
+
+@Injectable()
+export class PullRequestControlsService {
+  private readonly doNotRemindLabels: string[] = this.configService.get<
+    string[]
+  >('controls.doNotRemindLabels', []);
+
+  private readonly draftTitlePrefixes: string[] = this.configService
+    .get<string[]>('controls.draftTitlePrefixes', [])
+    .map((prefix) => prefix.toLowerCase());
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(STORAGE) private readonly storage: KeyValueStorage,
+  ) {}
+
+  async getControls(key: PullRequestKey): Promise<PullRequestControls> {
+    return (
+      (await this.storage.get<PullRequestControls>(
+        PULL_REQUEST_COLLECTION,
+        formatPullRequestKey(key),
+      )) ?? {}
+    );
+  }
+
+  async snooze(key: PullRequestKey, until: Date | null): Promise<void> {
+    await this.update(key, { snoozedUntil: until?.toISOString() });
+  }
+
+  async setMuted(key: PullRequestKey, muted: boolean): Promise<void> {
+    await this.update(key, { muted });
+  }
+
+  async addLabel(key: PullRequestKey, label: string): Promise<void> {
+    const { labels = [] } = await this.getControls(key);
+    if (!labels.includes(label)) {
+      await this.update(key, { labels: [...labels, label] });
+    }
+  }
+
+  async removeLabel(key: PullRequestKey, label: string): Promise<void> {
+    const { labels = [] } = await this.getControls(key);
+    await this.update(key, { labels: labels.filter((item) => item !== label) });
+  }
+
+  isDoNotRemindLabel(label: string): boolean {
+    return this.doNotRemindLabels.includes(label);
+  }
+
+  async setRepositoryMuted(
+    workspace: string,
+    repository: string,
+    muted: boolean,
+  ): Promise<void> {
+    const storeKey = `${workspace}/${repository}`;
+    if (muted) {
+      await this.storage.set(REPOSITORY_COLLECTION, storeKey, { muted });
+    } else {
+      await this.storage.delete(REPOSITORY_COLLECTION, storeKey);
+    }
+  }
+
+  async isRepositoryMuted(
+    workspace: string,
+    repository: string,
+  ): Promise<boolean> {
+    const controls = await this.storage.get<{ muted: boolean }>(
+      REPOSITORY_COLLECTION,
+      `${workspace}/${repository}`,
+    );
+    return !!controls?.muted;
+  }
+
+  // Bitbucket's draft flag or a title such as "WIP: ..." or "Draft: ...".
+  isDraft(pr: PullRequest): boolean {
+    const title = pr.title.trim().toLowerCase();
+    return (
+      !!pr.draft ||
+      this.draftTitlePrefixes.some((prefix) => title.startsWith(prefix))
+    );
+  }
+
+  async isMuted(key: PullRequestKey): Promise<boolean> {
+    return (
+      !!(await this.getControls(key)).muted ||
+      (await this.isRepositoryMuted(key.workspace, key.repository))
+    );
+  }
+
+  async isSnoozed(
+    key: PullRequestKey,
+    now: Date = new Date(),
+  ): Promise<boolean> {
+    const { snoozedUntil } = await this.getControls(key);
+    return !!snoozedUntil && new Date(snoozedUntil).getTime() > now.getTime();
+  }
+
+  // Reminders and stale escalations are skipped for drafts and for muted,
+  // snoozed or "do not remind" labelled PRs.
+  async canRemind(pr: PullRequest, now: Date = new Date()): Promise<boolean> {
+    const key = getPullRequestKey(pr);
+    const { labels = [] } = await this.getControls(key);
+
+    return (
+      !this.isDraft(pr) &&
+      !labels.some((label) => this.isDoNotRemindLabel(label)) &&
+      !(await this.isMuted(key)) &&
+      !(await this.isSnoozed(key, now))
+    );
+  }
+
+  async clear(key: PullRequestKey): Promise<void> {
+    await this.storage.delete(
+      PULL_REQUEST_COLLECTION,
+      formatPullRequestKey(key),
+    );
+  }
+
+  private async update(
+    key: PullRequestKey,
+    changes: Partial<PullRequestControls>,
+  ): Promise<void> {
+    await this.storage.set<PullRequestControls>(
+      PULL_REQUEST_COLLECTION,
+      formatPullRequestKey(key),
+      { ...(await this.getControls(key)), ...changes },
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  formatPullRequestKey,
+  PullRequestKey,
+} from '../../pachka/store/pull-request-key';
+import { KeyValueStorage } from '../../storage/interfaces/key-value-storage.interface';
+import { STORAGE } from '../../storage/storage.constants';
+import {
+  PullRequestComment,
+  PullRequestTask,
+} from '../interfaces/pull-request-comment.interface';
+
+export interface DiscussionState {
+  lastCommentId: number; // comment ids only grow within a PR
+  resolvedTaskIds: number[];
+}
+
+export interface DiscussionActivity {
+  comments: PullRequestComment[];
+  resolvedTasks: PullRequestTask[];
+}
+
+const COLLECTION = 'discussion-state';
+
+@Injectable()
+export class PullRequestDiscussionService {
+  constructor(@Inject(STORAGE) private readonly storage: KeyValueStorage) {}
+
+  // Comments and task resolutions since the previous call. The first call
+  // for a PR records its existing discussion without reporting it.
+  async getNewActivity(
+    key: PullRequestKey,
+    comments: PullRequestComment[],
+    tasks: PullRequestTask[],
+  ): Promise<DiscussionActivity> {
+    const storeKey = formatPullRequestKey(key);
+    const state = await this.storage.get<DiscussionState>(COLLECTION, storeKey);
+    const resolvedTasks = tasks.filter((task) => task.state === 'RESOLVED');
+
+    await this.storage.set<DiscussionState>(COLLECTION, storeKey, {
+      lastCommentId: Math.max(
+        state?.lastCommentId ?? 0,
+        ...comments.map((comment) => comment.id),
+      ),
+      resolvedTaskIds: resolvedTasks.map((task) => task.id),
+    });
+
+    if (!state) {
+      return { comments: [], resolvedTasks: [] };
+    }
+
+    return {
+      comments: comments.filter(
+        (comment) => comment.id > state.lastCommentId && !comment.deleted,
+      ),
+      resolvedTasks: resolvedTasks.filter(
+        (task) => !state.resolvedTaskIds.includes(task.id),
+      ),
+    };
+  }
+
+  async clear(key: PullRequestKey): Promise<void> {
+    await this.storage.delete(COLLECTION, formatPullRequestKey(key));
+  }
+}
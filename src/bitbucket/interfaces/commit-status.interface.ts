@@ -0,0 +1,16 @@
+export interface CommitStatus {
+  key: string;
+  name?: string;
+  state: 'SUCCESSFUL' | 'FAILED' | 'INPROGRESS' | 'STOPPED';
+  url?: string;
+}
+
+export type BuildStatus = 'passed' | 'failed' | 'in_progress';
+
+// Summary of the commit statuses of the PR's source commit.
+export interface BuildState {
+  hash: string;
+  status?: BuildStatus; // unset while the commit has no statuses yet
+  lastResult?: Exclude<BuildStatus, 'in_progress'>; // may be of an earlier commit
+  url?: string;
+}
@@ -0,0 +1,9 @@
+export interface DiffStatEntry {
+  status: 'added' | 'removed' | 'modified' | 'renamed';
+  old?: {
+    path: string;
+  } | null;
+  new?: {
+    path: string;
+  } | null;
+}
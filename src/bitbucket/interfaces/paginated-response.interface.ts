@@ -0,0 +1,7 @@
+export interface PaginatedResponse<T> {
+  values: T[];
+  next?: string;
+  page?: number;
+  pagelen?: number;
+  size?: number;
+}
@@ -0,0 +1,39 @@
+import { BitbucketUser } from './pull-request.interface';
+
+export interface PullRequestComment {
+  id: number;
+  content: {
+    raw: string;
+  };
+  user: BitbucketUser;
+  created_on: string;
+  deleted?: boolean;
+  inline?: {
+    path: string;
+    from?: number | null; // line in the old version of the file
+    to?: number | null; // line in the new version of the file
+  };
+  parent?: {
+    id: number;
+  };
+  links: {
+    html: {
+      href: string;
+    };
+  };
+}
+
+export interface PullRequestTask {
+  id: number;
+  content: {
+    raw: string;
+  };
+  state: 'RESOLVED' | 'UNRESOLVED';
+  creator: BitbucketUser;
+  resolved_by?: BitbucketUser;
+}
+
+export interface TaskSummary {
+  open: number;
+  resolved: number;
+}
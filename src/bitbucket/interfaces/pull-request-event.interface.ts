@@ -0,0 +1,49 @@
+import {
+  PullRequestComment,
+  PullRequestTask,
+} from './pull-request-comment.interface';
+import { BitbucketUser, PullRequest } from './pull-request.interface';
+
+export interface ReviewerAssignment {
+  reviewer: BitbucketUser;
+  ownedPattern?: string; // set when picked as an owner of changed files
+  load: number; // reviews the reviewer had pending before this PR
+}
+
+export type PullRequestEvent =
+  | { type: 'opened' }
+  | { type: 'ready_for_review'; user: BitbucketUser }
+  | { type: 'approved'; user: BitbucketUser }
+  | { type: 'unapproved'; user: BitbucketUser }
+  | { type: 'changes_requested'; user: BitbucketUser }
+  | { type: 'commits_pushed'; user: BitbucketUser; hash: string }
+  | { type: 'build_failed'; hash: string; url?: string }
+  | { type: 'build_passed'; hash: string }
+  | { type: 'comment_added'; user: BitbucketUser; comment: PullRequestComment }
+  | { type: 'tasks_resolved'; tasks: PullRequestTask[]; openTasks: number }
+  | { type: 'reviewers_added'; user: BitbucketUser; reviewers: BitbucketUser[] }
+  | { type: 'reviewers_assigned'; assignments: ReviewerAssignment[] }
+  | {
+      type: 'reviewers_removed';
+      user: BitbucketUser;
+      reviewers: BitbucketUser[];
+    }
+  | {
+      type: 'title_changed';
+      user: BitbucketUser;
+      previous: string;
+      current: string;
+    }
+  | {
+      type: 'target_branch_changed';
+      user: BitbucketUser;
+      previous: string;
+      current: string;
+    }
+  | {
+      type: 'closed';
+      user?: BitbucketUser;
+      state: Exclude<PullRequest['state'], 'OPEN'>;
+    };
+
+export type PullRequestEventType = PullRequestEvent['type'];
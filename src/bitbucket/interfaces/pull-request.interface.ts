@@ -1,3 +1,6 @@
+import { BuildState } from './commit-status.interface';
+import { TaskSummary } from './pull-request-comment.interface';
+
 export interface BitbucketUser {
   display_name: string;
   account_id: string;
@@ -10,7 +13,11 @@ export interface PullRequest {
   created_on: string;
   updated_on: string;
   state: 'OPEN' | 'MERGED' | 'DECLINED' | 'SUPERSEDED';
+  draft?: boolean;
+  comment_count?: number;
+  task_count?: number;
   author: BitbucketUser;
+  closed_by?: BitbucketUser;
   reviewers: BitbucketUser[];
   participants: Array<{
     user: BitbucketUser;
@@ -22,6 +29,9 @@ export interface PullRequest {
     branch: {
       name: string;
     };
+    commit?: {
+      hash: string;
+    };
     repository: {
       full_name: string;
     };
@@ -30,10 +40,17 @@ export interface PullRequest {
     branch: {
       name: string;
     };
+    repository: {
+      full_name: string;
+    };
   };
   links: {
     html: {
       href: string;
     };
   };
+  // Not returned by Bitbucket: filled in from the source commit's statuses
+  // and from the PR's tasks.
+  build?: BuildState;
+  tasks?: TaskSummary;
 }
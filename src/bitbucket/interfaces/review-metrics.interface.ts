@@ -0,0 +1,76 @@
+import { PullRequestKey } from '../../pachka/store/pull-request-key';
+import { BitbucketUser, PullRequest } from './pull-request.interface';
+
+export interface ReviewActivity {
+  type: 'approved' | 'changes_requested' | 'commented' | 'commits_pushed';
+  user: BitbucketUser;
+  at: string;
+}
+
+export interface ReviewRequest {
+  reviewer: BitbucketUser;
+  requestedAt: string;
+  respondedAt?: string;
+}
+
+// Lifecycle of a PR as observed by the bot, kept after the PR is closed.
+export interface PullRequestTimeline {
+  key: PullRequestKey;
+  title: string;
+  url: string;
+  author: BitbucketUser;
+  destinationBranch: string;
+  state: PullRequest['state'];
+  openedAt: string;
+  readyAt?: string; // when a draft was marked ready for review
+  closedAt?: string;
+  // First seen with its review already under way, e.g. when the bot was
+  // started: review times of such PRs are unknown.
+  partial: boolean;
+  activity: ReviewActivity[];
+  reviewRequests: ReviewRequest[];
+}
+
+// Durations are in working hours.
+export interface PullRequestMetrics {
+  pullRequest: string;
+  title: string;
+  url: string;
+  author: string;
+  state: PullRequest['state'];
+  openedAt: string;
+  firstReviewAt?: string;
+  closedAt?: string;
+  timeToFirstReview?: number;
+  timeToMerge?: number;
+  reviewRounds?: number;
+  approvals: number;
+  changesRequests: number;
+}
+
+export interface ReviewResponseMetrics {
+  pullRequest: string;
+  reviewer: string;
+  reviewerAccountId: string;
+  requestedAt: string;
+  respondedAt?: string;
+  responseTime?: number;
+}
+
+export interface ReviewerSummary {
+  reviewer: BitbucketUser;
+  responses: number;
+  medianResponseTime?: number;
+  pending: number;
+}
+
+export interface ReviewReport {
+  from: string;
+  to: string;
+  opened: number;
+  merged: number;
+  medianTimeToFirstReview?: number;
+  medianTimeToMerge?: number;
+  averageReviewRounds?: number;
+  reviewers: ReviewerSummary[];
+}
@@ -0,0 +1,66 @@
+import { CommitStatus } from './commit-status.interface';
+import { BitbucketUser, PullRequest } from './pull-request.interface';
+
+export type BitbucketWebhookEventKey =
+  | 'pullrequest:created'
+  | 'pullrequest:updated'
+  | 'pullrequest:approved'
+  | 'pullrequest:unapproved'
+  | 'pullrequest:changes_request_created'
+  | 'pullrequest:fulfilled'
+  | 'pullrequest:rejected'
+  | 'pullrequest:comment_created';
+
+export type CommitStatusWebhookEventKey =
+  | 'repo:commit_status_created'
+  | 'repo:commit_status_updated';
+
+export const SUPPORTED_WEBHOOK_EVENTS: BitbucketWebhookEventKey[] = [
+  'pullrequest:created',
+  'pullrequest:updated',
+  'pullrequest:approved',
+  'pullrequest:unapproved',
+  'pullrequest:changes_request_created',
+  'pullrequest:fulfilled',
+  'pullrequest:rejected',
+  'pullrequest:comment_created',
+];
+
+export function isSupportedWebhookEvent(
+  key: string,
+): key is BitbucketWebhookEventKey {
+  return (SUPPORTED_WEBHOOK_EVENTS as string[]).includes(key);
+}
+
+export const COMMIT_STATUS_WEBHOOK_EVENTS: CommitStatusWebhookEventKey[] = [
+  'repo:commit_status_created',
+  'repo:commit_status_updated',
+];
+
+export function isCommitStatusWebhookEvent(
+  key: string,
+): key is CommitStatusWebhookEventKey {
+  return (COMMIT_STATUS_WEBHOOK_EVENTS as string[]).includes(key);
+}
+
+export interface BitbucketWebhookPayload {
+  actor: BitbucketUser;
+  pullrequest: PullRequest;
+  repository: {
+    name: string;
+    full_name: string;
+  };
+}
+
+export interface CommitStatusWebhookPayload {
+  actor: BitbucketUser;
+  commit_status: CommitStatus & {
+    commit: {
+      hash: string;
+    };
+  };
+  repository: {
+    name: string;
+    full_name: string;
+  };
+}
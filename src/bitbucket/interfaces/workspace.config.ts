@@ -0,0 +1,54 @@
+import { BranchMergePolicy } from '../../merge-policy/interfaces/merge-policy.interface';
+
+export interface ReminderPolicy {
+  firstAfterHours: number; // first reminder N hours after the PR was opened
+  intervalHours: number; // then every M hours
+  escalateAfter: number; // reminders after the K-th one are escalated
+  waitForGreenBuild: boolean; // no reminders while the build is red or running
+}
+
+export interface StalePolicy {
+  afterWorkingHours: number; // escalate after N working hours without activity
+  teamLead?: string; // Bitbucket account_id mentioned in escalations
+  commentOnPullRequest: boolean; // also comment on the PR in Bitbucket
+}
+
+export interface CodeOwnersRule {
+  pattern: string; // CODEOWNERS-style path pattern, e.g. "src/api/" or "*.sql"
+  owners: string[]; // Bitbucket account_ids
+}
+
+export interface AutoAssignPolicy {
+  enabled: boolean;
+  reviewers: number; // how many reviewers a PR without reviewers gets
+  pool: string[]; // Bitbucket account_ids
+  codeOwners: CodeOwnersRule[]; // the last rule matching a file wins
+}
+
+export interface BranchRoute {
+  branch: string; // glob matched against the destination branch
+  chatId: string;
+}
+
+export interface RepositoryConfig {
+  name: string;
+  chatId?: string;
+  branchRoutes?: BranchRoute[];
+  reminders?: Partial<ReminderPolicy>;
+  stale?: Partial<StalePolicy>;
+  autoAssign?: Partial<AutoAssignPolicy>;
+  mergePolicies?: BranchMergePolicy[]; // the first matching branch applies
+}
+
+export interface WorkspaceConfig {
+  name: string;
+  chatId?: string;
+  branchRoutes?: BranchRoute[];
+  repositories: RepositoryConfig[];
+}
+
+// Repositories may be listed by name only or as objects with settings.
+export interface RawWorkspaceConfig
+  extends Omit<WorkspaceConfig, 'repositories'> {
+  repositories: Array<string | RepositoryConfig>;
+}
@@ -0,0 +1,467 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ChatRoutingService } from '../../pachka/routing/chat-routing.service';
+import {
+  formatPullRequestKey,
+  getPullRequestKey,
+  PullRequestKey,
+} from '../../pachka/store/pull-request-key';
+import { KeyValueStorage } from '../../storage/interfaces/key-value-storage.interface';
+import { STORAGE } from '../../storage/storage.constants';
+import { UserDirectoryService } from '../../users/user-directory.service';
+import { WorkScheduleService } from '../../work-schedule/work-schedule.service';
+import { PullRequestEvent } from '../interfaces/pull-request-event.interface';
+import {
+  BitbucketUser,
+  PullRequest,
+} from '../interfaces/pull-request.interface';
+import {
+  PullRequestMetrics,
+  PullRequestTimeline,
+  ReviewActivity,
+  ReviewerSummary,
+  ReviewReport,
+  ReviewResponseMetrics,
+} from '../interfaces/review-metrics.interface';
+
+const COLLECTION = 'review-metrics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function average(values: number[]): number | undefined {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : undefined;
+}
+
+function roundHours(hours: number | undefined): number | undefined {
+  return hours === undefined ? undefined : Math.round(hours * 10) / 10;
+}
+
+function isWithin(date: string | undefined, from: Date, to: Date): boolean {
+  if (!date) {
+    return false;
+  }
+  const time = new Date(date).getTime();
+  return time >= from.getTime() && time < to.getTime();
+}
+
+// Approvals, change requests and comments by anyone but the author.
+function isReview(activity: ReviewActivity, author: BitbucketUser): boolean {
+  return (
+    activity.type !== 'commits_pushed' &&
+    activity.user.account_id !== author.account_id
+  );
+}
+
+@Injectable()
+export class ReviewMetricsService {
+  private readonly logger: Logger = new Logger(ReviewMetricsService.name);
+
+  readonly enabled: boolean = this.configService.get<boolean>(
+    'metrics.enabled',
+    true,
+  );
+
+  private readonly retentionDays: number = this.configService.get<number>(
+    'metrics.retentionDays',
+    180,
+  );
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly workSchedule: WorkScheduleService,
+    private readonly userDirectory: UserDirectoryService,
+    private readonly chatRouting: ChatRoutingService,
+    @Inject(STORAGE) private readonly storage: KeyValueStorage,
+  ) {}
+
+  // Events are recorded when the bot observes them, comments at the time
+  // they were written.
+  async record(
+    pr: PullRequest,
+    events: PullRequestEvent[],
+    now: Date = new Date(),
+  ): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    const storeKey = formatPullRequestKey(getPullRequestKey(pr));
+    const at = now.toISOString();
+    const timeline =
+      (await this.storage.get<PullRequestTimeline>(COLLECTION, storeKey)) ??
+      this.createTimeline(pr, events, at);
+
+    for (const event of events) {
+      switch (event.type) {
+        case 'ready_for_review':
+          timeline.readyAt ??= at;
+          this.requestReviews(timeline, pr.reviewers, at);
+          break;
+        case 'reviewers_added':
+          this.requestReviews(timeline, event.reviewers, at);
+          break;
+        case 'reviewers_removed':
+          timeline.reviewRequests = timeline.reviewRequests.filter(
+            (request) =>
+              request.respondedAt ||
+              !event.reviewers.some(
+                (reviewer) =>
+                  reviewer.account_id === request.reviewer.account_id,
+              ),
+          );
+          break;
+        case 'approved':
+        case 'changes_requested':
+        case 'commits_pushed':
+          this.addActivity(timeline, {
+            type: event.type,
+            user: event.user,
+            at,
+          });
+          break;
+        case 'comment_added':
+          this.addActivity(timeline, {
+            type: 'commented',
+            user: event.user,
+            at: event.comment.created_on,
+          });
+          break;
+        case 'closed':
+          timeline.closedAt = pr.updated_on;
+          break;
+      }
+    }
+
+    timeline.title = pr.title;
+    timeline.state = pr.state;
+    timeline.destinationBranch = pr.destination.branch.name;
+    await this.storage.set(COLLECTION, storeKey, timeline);
+  }
+
+  async clear(key: PullRequestKey): Promise<void> {
+    await this.storage.delete(COLLECTION, formatPullRequestKey(key));
+  }
+
+  // Closed PRs are kept for reports and exports until they are older than
+  // the retention period, as are PRs that were deleted while open.
+  async prune(now: Date = new Date()): Promise<void> {
+    const cutoff = now.getTime() - this.retentionDays * DAY_MS;
+    let removed = 0;
+
+    for (const [key, timeline] of Object.entries(
+      await this.storage.getAll<PullRequestTimeline>(COLLECTION),
+    )) {
+      if (new Date(timeline.closedAt ?? timeline.openedAt).getTime() < cutoff) {
+        await this.storage.delete(COLLECTION, key);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      this.logger.log(`Pruned ${removed} PR timelines from review metrics`);
+    }
+  }
+
+  async getPullRequestMetrics(
+    from: Date,
+    to: Date,
+  ): Promise<PullRequestMetrics[]> {
+    return (await this.getTimelines(from, to)).map((timeline) =>
+      this.toPullRequestMetrics(timeline),
+    );
+  }
+
+  // Review requests that were waiting for an answer at some point between
+  // the dates.
+  async getReviewResponses(
+    from: Date,
+    to: Date,
+  ): Promise<ReviewResponseMetrics[]> {
+    return (await this.getTimelines(from, to))
+      .flatMap((timeline) => this.toResponseMetrics(timeline))
+      .filter(
+        (response) =>
+          new Date(response.requestedAt) < to &&
+          (!response.respondedAt || new Date(response.respondedAt) >= from),
+      );
+  }
+
+  // One report per chat, covering the PRs that are routed to that chat.
+  async getReports(from: Date, to: Date): Promise<Map<string, ReviewReport>> {
+    const timelinesByChat = new Map<string, PullRequestTimeline[]>();
+    for (const timeline of await this.getTimelines(from, to)) {
+      const chatId = this.chatRouting.resolvePullRequestChat(
+        timeline.key,
+        timeline.destinationBranch,
+      );
+      timelinesByChat.set(chatId, [
+        ...(timelinesByChat.get(chatId) ?? []),
+        timeline,
+      ]);
+    }
+
+    return new Map(
+      [...timelinesByChat].map(([chatId, timelines]) => [
+        chatId,
+        this.buildReport(timelines, from, to),
+      ]),
+    );
+  }
+
+  private buildReport(
+    timelines: PullRequestTimeline[],
+    from: Date,
+    to: Date,
+  ): ReviewReport {
+    const prs = timelines.map((timeline) =>
+      this.toPullRequestMetrics(timeline),
+    );
+    const merged = prs.filter(
+      (pr) => pr.state === 'MERGED' && isWithin(pr.closedAt, from, to),
+    );
+
+    const reviewers = new Map<
+      string,
+      { reviewer: BitbucketUser; times: number[]; pending: number }
+    >();
+    for (const timeline of timelines) {
+      const responses = this.toResponseMetrics(timeline);
+      timeline.reviewRequests.forEach((request, index) => {
+        const isPending = !request.respondedAt && timeline.state === 'OPEN';
+        if (!isPending && !isWithin(request.respondedAt, from, to)) {
+          return;
+        }
+
+        const accountId = request.reviewer.account_id;
+        const entry = reviewers.get(accountId) ?? {
+          reviewer: request.reviewer,
+          times: [],
+          pending: 0,
+        };
+        if (isPending) {
+          entry.pending++;
+        } else {
+          entry.times.push(responses[index].responseTime);
+        }
+        reviewers.set(accountId, entry);
+      });
+    }
+
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      opened: prs.filter((pr) => isWithin(pr.openedAt, from, to)).length,
+      merged: merged.length,
+      medianTimeToFirstReview: roundHours(
+        median(
+          prs
+            .filter((pr) => isWithin(pr.firstReviewAt, from, to))
+            .map((pr) => pr.timeToFirstReview),
+        ),
+      ),
+      medianTimeToMerge: roundHours(median(merged.map((pr) => pr.timeToMerge))),
+      averageReviewRounds: roundHours(
+        average(
+          merged
+            .filter((pr) => pr.reviewRounds !== undefined)
+            .map((pr) => pr.reviewRounds),
+        ),
+      ),
+      reviewers: [...reviewers.values()]
+        .map(
+          ({ reviewer, times, pending }): ReviewerSummary => ({
+            reviewer,
+            responses: times.length,
+            medianResponseTime: roundHours(median(times)),
+            pending,
+          }),
+        )
+        .sort((a, b) => b.responses - a.responses),
+    };
+  }
+
+  // Timelines of the PRs that were open at some point between the dates.
+  private async getTimelines(
+    from: Date,
+    to: Date,
+  ): Promise<PullRequestTimeline[]> {
+    return Object.values(
+      await this.storage.getAll<PullRequestTimeline>(COLLECTION),
+    )
+      .filter(
+        (timeline) =>
+          new Date(timeline.openedAt) < to &&
+          (!timeline.closedAt || new Date(timeline.closedAt) >= from),
+      )
+      .sort((a, b) => a.openedAt.localeCompare(b.openedAt));
+  }
+
+  // A PR first seen through anything but its opening, or with reviews
+  // already in, has an unknown review history.
+  private createTimeline(
+    pr: PullRequest,
+    events: PullRequestEvent[],
+    at: string,
+  ): PullRequestTimeline {
+    const readyAt = events.some((event) => event.type === 'ready_for_review')
+      ? at
+      : undefined;
+    const partial =
+      !events.some(
+        (event) => event.type === 'opened' || event.type === 'ready_for_review',
+      ) ||
+      pr.participants.some(
+        (participant) =>
+          participant.approved || participant.state === 'changes_requested',
+      );
+
+    return {
+      key: getPullRequestKey(pr),
+      title: pr.title,
+      url: pr.links.html.href,
+      author: pr.author,
+      destinationBranch: pr.destination.branch.name,
+      state: pr.state,
+      openedAt: pr.created_on,
+      readyAt,
+      partial,
+      activity: [],
+      reviewRequests: partial
+        ? []
+        : pr.reviewers.map((reviewer) => ({
+            reviewer,
+            requestedAt: readyAt ?? pr.created_on,
+          })),
+    };
+  }
+
+  private requestReviews(
+    timeline: PullRequestTimeline,
+    reviewers: BitbucketUser[],
+    at: string,
+  ): void {
+    for (const reviewer of reviewers) {
+      if (
+        !timeline.reviewRequests.some(
+          (request) => request.reviewer.account_id === reviewer.account_id,
+        )
+      ) {
+        timeline.reviewRequests.push({ reviewer, requestedAt: at });
+      }
+    }
+  }
+
+  // The first review by a requested reviewer answers the request.
+  private addActivity(
+    timeline: PullRequestTimeline,
+    activity: ReviewActivity,
+  ): void {
+    timeline.activity.push(activity);
+    if (!isReview(activity, timeline.author)) {
+      return;
+    }
+
+    for (const request of timeline.reviewRequests) {
+      if (
+        !request.respondedAt &&
+        request.reviewer.account_id === activity.user.account_id
+      ) {
+        request.respondedAt = activity.at;
+      }
+    }
+  }
+
+  // Times are counted from the PR being opened, or marked ready for review.
+  private toPullRequestMetrics(
+    timeline: PullRequestTimeline,
+  ): PullRequestMetrics {
+    const startedAt = new Date(timeline.readyAt ?? timeline.openedAt);
+    const activity = [...timeline.activity].sort((a, b) =>
+      a.at.localeCompare(b.at),
+    );
+    const reviews = activity.filter((item) => isReview(item, timeline.author));
+    const firstReviewAt = timeline.partial ? undefined : reviews[0]?.at;
+    const mergedAt =
+      timeline.state === 'MERGED' ? timeline.closedAt : undefined;
+
+    return {
+      pullRequest: formatPullRequestKey(timeline.key),
+      title: timeline.title,
+      url: timeline.url,
+      author: this.userDirectory.getDisplayName(timeline.author),
+      state: timeline.state,
+      openedAt: timeline.openedAt,
+      firstReviewAt,
+      closedAt: timeline.closedAt,
+      timeToFirstReview:
+        firstReviewAt &&
+        this.getWorkingHours(startedAt, new Date(firstReviewAt)),
+      timeToMerge:
+        mergedAt && this.getWorkingHours(startedAt, new Date(mergedAt)),
+      reviewRounds: timeline.partial
+        ? undefined
+        : this.countReviewRounds(activity, timeline.author),
+      approvals: reviews.filter((item) => item.type === 'approved').length,
+      changesRequests: reviews.filter(
+        (item) => item.type === 'changes_requested',
+      ).length,
+    };
+  }
+
+  // Reviewers' own schedules apply to their response times.
+  private toResponseMetrics(
+    timeline: PullRequestTimeline,
+  ): ReviewResponseMetrics[] {
+    return timeline.reviewRequests.map((request) => ({
+      pullRequest: formatPullRequestKey(timeline.key),
+      reviewer: this.userDirectory.getDisplayName(request.reviewer),
+      reviewerAccountId: request.reviewer.account_id,
+      requestedAt: request.requestedAt,
+      respondedAt: request.respondedAt,
+      responseTime:
+        request.respondedAt &&
+        this.getWorkingHours(
+          new Date(request.requestedAt),
+          new Date(request.respondedAt),
+          request.reviewer,
+        ),
+    }));
+  }
+
+  // A round is the reviews between two pushes: the first review after new
+  // commits starts the next one.
+  private countReviewRounds(
+    activity: ReviewActivity[],
+    author: BitbucketUser,
+  ): number {
+    let rounds = 0;
+    let awaitingReview = true;
+    for (const item of activity) {
+      if (item.type === 'commits_pushed') {
+        awaitingReview = true;
+      } else if (awaitingReview && isReview(item, author)) {
+        rounds++;
+        awaitingReview = false;
+      }
+    }
+    return rounds;
+  }
+
+  private getWorkingHours(from: Date, to: Date, user?: BitbucketUser): number {
+    return roundHours(this.workSchedule.getWorkingHoursBetween(from, to, user));
+  }
+}
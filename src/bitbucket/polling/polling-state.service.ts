@@ -0,0 +1,54 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  formatPullRequestKey,
+  PullRequestKey,
+} from '../../pachka/store/pull-request-key';
+import { KeyValueStorage } from '../../storage/interfaces/key-value-storage.interface';
+import { STORAGE } from '../../storage/storage.constants';
+import { PullRequest } from '../interfaces/pull-request.interface';
+
+const SNAPSHOT_COLLECTION = 'pull-request-snapshots';
+const CURSOR_COLLECTION = 'polling-cursor';
+const LAST_CHECKED_KEY = 'lastCheckedDate';
+
+@Injectable()
+export class PollingStateService {
+  constructor(@Inject(STORAGE) private readonly storage: KeyValueStorage) {}
+
+  async getSnapshot(key: PullRequestKey): Promise<PullRequest | null> {
+    return this.storage.get<PullRequest>(
+      SNAPSHOT_COLLECTION,
+      formatPullRequestKey(key),
+    );
+  }
+
+  async saveSnapshot(key: PullRequestKey, pr: PullRequest): Promise<void> {
+    await this.storage.set(SNAPSHOT_COLLECTION, formatPullRequestKey(key), pr);
+  }
+
+  async getAllSnapshots(): Promise<PullRequest[]> {
+    const snapshots =
+      await this.storage.getAll<PullRequest>(SNAPSHOT_COLLECTION);
+    return Object.values(snapshots);
+  }
+
+  async removeSnapshot(key: PullRequestKey): Promise<void> {
+    await this.storage.delete(SNAPSHOT_COLLECTION, formatPullRequestKey(key));
+  }
+
+  async getLastCheckedDate(): Promise<Date | null> {
+    const value = await this.storage.get<string>(
+      CURSOR_COLLECTION,
+      LAST_CHECKED_KEY,
+    );
+    return value ? new Date(value) : null;
+  }
+
+  async setLastCheckedDate(date: Date): Promise<void> {
+    await this.storage.set(
+      CURSOR_COLLECTION,
+      LAST_CHECKED_KEY,
+      date.toISOString(),
+    );
+  }
+}
@@ -0,0 +1,260 @@
+import {
+  BitbucketUser,
+  PullRequest,
+} from '../interfaces/pull-request.interface';
+import { diffPullRequests } from './pull-request-diff';
+
+const author: BitbucketUser = { account_id: 'author', display_name: 'Author' };
+const alice: BitbucketUser = { account_id: 'alice', display_name: 'Alice' };
+const bob: BitbucketUser = { account_id: 'bob', display_name: 'Bob' };
+
+function createPullRequest(overrides: Partial<PullRequest> = {}): PullRequest {
+  return {
+    id: 1,
+    title: 'Add feature',
+    description: '',
+    created_on: '2026-10-12T08:00:00Z',
+    updated_on: '2026-10-12T08:00:00Z',
+    state: 'OPEN',
+    author,
+    reviewers: [alice],
+    participants: [
+      { user: alice, role: 'REVIEWER', approved: false, state: 'pending' },
+    ],
+    source: {
+      branch: { name: 'feature' },
+      commit: { hash: 'aaa111' },
+      repository: { full_name: 'ws/repo' },
+    },
+    destination: {
+      branch: { name: 'main' },
+      repository: { full_name: 'ws/repo' },
+    },
+    links: { html: { href: 'https://bitbucket.org/ws/repo/pull-requests/1' } },
+    ...overrides,
+  };
+}
+
+describe('diffPullRequests', () => {
+  it('reports a PR seen for the first time as opened', () => {
+    expect(diffPullRequests(null, createPullRequest())).toEqual([
+      { type: 'opened' },
+    ]);
+  });
+
+  it('reports a PR first seen closed as closed by whoever closed it', () => {
+    const merged = createPullRequest({ state: 'MERGED', closed_by: alice });
+
+    expect(diffPullRequests(null, merged)).toEqual([
+      { type: 'closed', user: alice, state: 'MERGED' },
+    ]);
+  });
+
+  it('reports nothing when the snapshot did not change', () => {
+    expect(diffPullRequests(createPullRequest(), createPullRequest())).toEqual(
+      [],
+    );
+  });
+
+  it('ignores changes that are not events, e.g. updated_on', () => {
+    const current = createPullRequest({ updated_on: '2026-10-13T08:00:00Z' });
+
+    expect(diffPullRequests(createPullRequest(), current)).toEqual([]);
+  });
+
+  describe('updates', () => {
+    it('reports new commits with the new hash', () => {
+      const current = createPullRequest({
+        source: {
+          ...createPullRequest().source,
+          commit: { hash: 'bbb222' },
+        },
+      });
+
+      expect(diffPullRequests(createPullRequest(), current)).toEqual([
+        { type: 'commits_pushed', user: author, hash: 'bbb222' },
+      ]);
+    });
+
+    it('credits the webhook actor instead of the author when known', () => {
+      const current = createPullRequest({ title: 'Add feature, take two' });
+
+      expect(diffPullRequests(createPullRequest(), current, bob)).toEqual([
+        {
+          type: 'title_changed',
+          user: bob,
+          previous: 'Add feature',
+          current: 'Add feature, take two',
+        },
+      ]);
+    });
+
+    it('reports a changed target branch', () => {
+      const current = createPullRequest({
+        destination: {
+          ...createPullRequest().destination,
+          branch: { name: 'develop' },
+        },
+      });
+
+      expect(diffPullRequests(createPullRequest(), current)).toEqual([
+        {
+          type: 'target_branch_changed',
+          user: author,
+          previous: 'main',
+          current: 'develop',
+        },
+      ]);
+    });
+  });
+
+  describe('reviewers', () => {
+    it('reports added and removed reviewers', () => {
+      const current = createPullRequest({ reviewers: [bob] });
+
+      expect(diffPullRequests(createPullRequest(), current)).toEqual([
+        { type: 'reviewers_added', user: author, reviewers: [bob] },
+        { type: 'reviewers_removed', user: author, reviewers: [alice] },
+      ]);
+    });
+
+    it('reports an approval', () => {
+      const current = createPullRequest({
+        participants: [
+          { user: alice, role: 'REVIEWER', approved: true, state: 'approved' },
+        ],
+      });
+
+      expect(diffPullRequests(createPullRequest(), current)).toEqual([
+        { type: 'approved', user: alice },
+      ]);
+    });
+
+    it('reports an approval by a participant who was not there before', () => {
+      const current = createPullRequest({
+        participants: [
+          ...createPullRequest().participants,
+          { user: bob, role: 'PARTICIPANT', approved: true, state: 'approved' },
+        ],
+      });
+
+      expect(diffPullRequests(createPullRequest(), current)).toEqual([
+        { type: 'approved', user: bob },
+      ]);
+    });
+
+    it('reports a withdrawn approval', () => {
+      const previous = createPullRequest({
+        participants: [
+          { user: alice, role: 'REVIEWER', approved: true, state: 'approved' },
+        ],
+      });
+
+      expect(diffPullRequests(previous, createPullRequest())).toEqual([
+        { type: 'unapproved', user: alice },
+      ]);
+    });
+
+    it('does not report approvals reset by a push as withdrawn', () => {
+      const previous = createPullRequest({
+        participants: [
+          { user: alice, role: 'REVIEWER', approved: true, state: 'approved' },
+        ],
+      });
+      const current = createPullRequest({
+        source: {
+          ...createPullRequest().source,
+          commit: { hash: 'bbb222' },
+        },
+      });
+
+      expect(diffPullRequests(previous, current)).toEqual([
+        { type: 'commits_pushed', user: author, hash: 'bbb222' },
+      ]);
+    });
+
+    it('reports a change request only once', () => {
+      const current = createPullRequest({
+        participants: [
+          {
+            user: alice,
+            role: 'REVIEWER',
+            approved: false,
+            state: 'changes_requested',
+          },
+        ],
+      });
+
+      expect(diffPullRequests(createPullRequest(), current)).toEqual([
+        { type: 'changes_requested', user: alice },
+      ]);
+      expect(diffPullRequests(current, current)).toEqual([]);
+    });
+  });
+
+  describe('builds', () => {
+    it('reports a failed build', () => {
+      const current = createPullRequest({
+        build: {
+          hash: 'aaa111',
+          status: 'failed',
+          lastResult: 'failed',
+          url: 'https://ci/1',
+        },
+      });
+
+      expect(diffPullRequests(createPullRequest(), current)).toEqual([
+        { type: 'build_failed', hash: 'aaa111', url: 'https://ci/1' },
+      ]);
+    });
+
+    it('reports a green build only after a red one', () => {
+      const green = createPullRequest({
+        build: { hash: 'aaa111', status: 'passed', lastResult: 'passed' },
+      });
+      const red = createPullRequest({
+        build: { hash: 'aaa111', status: 'failed', lastResult: 'failed' },
+      });
+
+      expect(diffPullRequests(createPullRequest(), green)).toEqual([]);
+      expect(diffPullRequests(red, green)).toEqual([
+        { type: 'build_passed', hash: 'aaa111' },
+      ]);
+    });
+
+    it('does not report a build that is still running', () => {
+      const previous = createPullRequest({
+        build: { hash: 'aaa111', status: 'failed', lastResult: 'failed' },
+      });
+      const current = createPullRequest({
+        build: { hash: 'aaa111', status: 'in_progress', lastResult: 'failed' },
+      });
+
+      expect(diffPullRequests(previous, current)).toEqual([]);
+    });
+  });
+
+  describe('state changes', () => {
+    it('reports a merge', () => {
+      const current = createPullRequest({ state: 'MERGED', closed_by: alice });
+
+      expect(diffPullRequests(createPullRequest(), current)).toEqual([
+        { type: 'closed', user: alice, state: 'MERGED' },
+      ]);
+    });
+
+    it('falls back to the webhook actor when closed_by is missing', () => {
+      const current = createPullRequest({ state: 'DECLINED' });
+
+      expect(diffPullRequests(createPullRequest(), current, bob)).toEqual([
+        { type: 'closed', user: bob, state: 'DECLINED' },
+      ]);
+    });
+
+    it('does not report a PR that was already closed again', () => {
+      const merged = createPullRequest({ state: 'MERGED' });
+
+      expect(diffPullRequests(merged, merged)).toEqual([]);
+    });
+  });
+});
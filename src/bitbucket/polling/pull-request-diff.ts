@@ -0,0 +1,152 @@
+import { PullRequestEvent } from '../interfaces/pull-request-event.interface';
+import {
+  BitbucketUser,
+  PullRequest,
+} from '../interfaces/pull-request.interface';
+
+type Participant = PullRequest['participants'][number];
+
+function diffReviewers(
+  previous: PullRequest,
+  current: PullRequest,
+): { added: BitbucketUser[]; removed: BitbucketUser[] } {
+  const previousIds = new Set(previous.reviewers.map((r) => r.account_id));
+  const currentIds = new Set(current.reviewers.map((r) => r.account_id));
+
+  return {
+    added: current.reviewers.filter((r) => !previousIds.has(r.account_id)),
+    removed: previous.reviewers.filter((r) => !currentIds.has(r.account_id)),
+  };
+}
+
+function diffParticipant(
+  previous: Participant | undefined,
+  current: Participant,
+): PullRequestEvent | null {
+  const user = current.user;
+
+  if (current.approved && !previous?.approved) {
+    return { type: 'approved', user };
+  }
+
+  if (
+    current.state === 'changes_requested' &&
+    previous?.state !== 'changes_requested'
+  ) {
+    return { type: 'changes_requested', user };
+  }
+
+  if (!current.approved && previous?.approved) {
+    return { type: 'unapproved', user };
+  }
+
+  return null;
+}
+
+// Snapshots carry no information about who changed the title, branch or
+// reviewers, so unless the webhook actor is known the author is credited:
+// only the author (or a repository admin) can make those changes.
+export function diffPullRequests(
+  previous: PullRequest | null,
+  current: PullRequest,
+  actor?: BitbucketUser,
+): PullRequestEvent[] {
+  if (!previous) {
+    return current.state === 'OPEN'
+      ? [{ type: 'opened' }]
+      : [
+          {
+            type: 'closed',
+            user: current.closed_by ?? actor,
+            state: current.state,
+          },
+        ];
+  }
+
+  const events: PullRequestEvent[] = [];
+  const editor = actor ?? current.author;
+
+  const previousCommit = previous.source.commit?.hash;
+  const currentCommit = current.source.commit?.hash;
+  const pushed =
+    !!previousCommit && !!currentCommit && previousCommit !== currentCommit;
+  if (pushed) {
+    events.push({ type: 'commits_pushed', user: editor, hash: currentCommit });
+  }
+
+  // Only finished builds are reported, and green only after a red one.
+  const previousResult = previous.build?.lastResult;
+  const currentBuild = current.build;
+  if (currentBuild?.lastResult !== previousResult) {
+    if (currentBuild?.lastResult === 'failed') {
+      events.push({
+        type: 'build_failed',
+        hash: currentBuild.hash,
+        url: currentBuild.url,
+      });
+    } else if (
+      currentBuild?.lastResult === 'passed' &&
+      previousResult === 'failed'
+    ) {
+      events.push({ type: 'build_passed', hash: currentBuild.hash });
+    }
+  }
+
+  if (previous.title !== current.title) {
+    events.push({
+      type: 'title_changed',
+      user: editor,
+      previous: previous.title,
+      current: current.title,
+    });
+  }
+
+  if (previous.destination.branch.name !== current.destination.branch.name) {
+    events.push({
+      type: 'target_branch_changed',
+      user: editor,
+      previous: previous.destination.branch.name,
+      current: current.destination.branch.name,
+    });
+  }
+
+  const reviewers = diffReviewers(previous, current);
+  if (reviewers.added.length > 0) {
+    events.push({
+      type: 'reviewers_added',
+      user: editor,
+      reviewers: reviewers.added,
+    });
+  }
+  if (reviewers.removed.length > 0) {
+    events.push({
+      type: 'reviewers_removed',
+      user: editor,
+      reviewers: reviewers.removed,
+    });
+  }
+
+  // Bitbucket can be set to reset approvals on push: those are not withdrawn
+  // by the reviewers, and the root message shows them as pending again.
+  for (const participant of current.participants) {
+    const event = diffParticipant(
+      previous.participants.find(
+        (p) => p.user.account_id === participant.user.account_id,
+      ),
+      participant,
+    );
+    if (event && !(pushed && event.type === 'unapproved')) {
+      events.push(event);
+    }
+  }
+
+  if (previous.state === 'OPEN' && current.state !== 'OPEN') {
+    events.push({
+      type: 'closed',
+      user: current.closed_by ?? actor,
+      state: current.state,
+    });
+  }
+
+  return events;
+}
@@ -0,0 +1,66 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  formatPullRequestKey,
+  PullRequestKey,
+} from '../../pachka/store/pull-request-key';
+import { KeyValueStorage } from '../../storage/interfaces/key-value-storage.interface';
+import { STORAGE } from '../../storage/storage.constants';
+import { PullRequestEvent } from '../interfaces/pull-request-event.interface';
+import { PullRequest } from '../interfaces/pull-request.interface';
+
+// Events detected during quiet hours, waiting for the next work window.
+export interface HeldPullRequestEvents {
+  pr: PullRequest; // latest known state, so closed PRs can still be reported
+  events: PullRequestEvent[];
+  heldSince: string;
+}
+
+const COLLECTION = 'held-events';
+
+@Injectable()
+export class HeldEventsService {
+  constructor(@Inject(STORAGE) private readonly storage: KeyValueStorage) {}
+
+  // The same change can be seen twice, e.g. by a webhook and by the next
+  // sweep, so events already held are not added again.
+  async hold(
+    key: PullRequestKey,
+    pr: PullRequest,
+    events: PullRequestEvent[],
+  ): Promise<void> {
+    const held = await this.get(key);
+    const heldEvents = held?.events ?? [];
+    const known = new Set(heldEvents.map((event) => JSON.stringify(event)));
+
+    await this.storage.set<HeldPullRequestEvents>(
+      COLLECTION,
+      formatPullRequestKey(key),
+      {
+        pr,
+        events: [
+          ...heldEvents,
+          ...events.filter((event) => !known.has(JSON.stringify(event))),
+        ],
+        heldSince: held?.heldSince ?? new Date().toISOString(),
+      },
+    );
+  }
+
+  async get(key: PullRequestKey): Promise<HeldPullRequestEvents | null> {
+    return this.storage.get<HeldPullRequestEvents>(
+      COLLECTION,
+      formatPullRequestKey(key),
+    );
+  }
+
+  async getAll(): Promise<HeldPullRequestEvents[]> {
+    const held = await this.storage.getAll<HeldPullRequestEvents>(COLLECTION);
+    return Object.values(held).sort((a, b) =>
+      a.heldSince.localeCompare(b.heldSince),
+    );
+  }
+
+  async remove(key: PullRequestKey): Promise<void> {
+    await this.storage.delete(COLLECTION, formatPullRequestKey(key));
+  }
+}
@@ -0,0 +1,102 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  formatPullRequestKey,
+  PullRequestKey,
+} from '../../pachka/store/pull-request-key';
+import { KeyValueStorage } from '../../storage/interfaces/key-value-storage.interface';
+import { STORAGE } from '../../storage/storage.constants';
+import { PullRequest } from '../interfaces/pull-request.interface';
+import {
+  ReminderPolicy,
+  RepositoryConfig,
+} from '../interfaces/workspace.config';
+
+export interface ReminderState {
+  lastRemindedAt?: string;
+  reminderCount: number;
+}
+
+export interface DueReminder {
+  reminderCount: number;
+  escalated: boolean;
+}
+
+const COLLECTION = 'reminder-state';
+const HOUR_MS = 60 * 60 * 1000;
+
+@Injectable()
+export class ReminderService {
+  private readonly defaultPolicy: ReminderPolicy = {
+    firstAfterHours: this.configService.get<number>(
+      'reminders.firstAfterHours',
+      4,
+    ),
+    intervalHours: this.configService.get<number>(
+      'reminders.intervalHours',
+      24,
+    ),
+    escalateAfter: this.configService.get<number>('reminders.escalateAfter', 3),
+    waitForGreenBuild: this.configService.get<boolean>(
+      'reminders.waitForGreenBuild',
+      false,
+    ),
+  };
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(STORAGE) private readonly storage: KeyValueStorage,
+  ) {}
+
+  getPolicy(repositoryConfig?: RepositoryConfig): ReminderPolicy {
+    return { ...this.defaultPolicy, ...repositoryConfig?.reminders };
+  }
+
+  async getDueReminder(
+    key: PullRequestKey,
+    pr: PullRequest,
+    policy: ReminderPolicy,
+    now: Date = new Date(),
+  ): Promise<DueReminder | null> {
+    const state = await this.getState(key);
+    const dueAt = state.lastRemindedAt
+      ? new Date(state.lastRemindedAt).getTime() +
+        policy.intervalHours * HOUR_MS
+      : new Date(pr.created_on).getTime() + policy.firstAfterHours * HOUR_MS;
+
+    if (now.getTime() < dueAt) {
+      return null;
+    }
+
+    const reminderCount = state.reminderCount + 1;
+    return {
+      reminderCount,
+      escalated: reminderCount > policy.escalateAfter,
+    };
+  }
+
+  async markReminded(
+    key: PullRequestKey,
+    reminderCount: number,
+    now: Date = new Date(),
+  ): Promise<void> {
+    await this.storage.set<ReminderState>(
+      COLLECTION,
+      formatPullRequestKey(key),
+      { lastRemindedAt: now.toISOString(), reminderCount },
+    );
+  }
+
+  async clear(key: PullRequestKey): Promise<void> {
+    await this.storage.delete(COLLECTION, formatPullRequestKey(key));
+  }
+
+  private async getState(key: PullRequestKey): Promise<ReminderState> {
+    return (
+      (await this.storage.get<ReminderState>(
+        COLLECTION,
+        formatPullRequestKey(key),
+      )) ?? { reminderCount: 0 }
+    );
+  }
+}
@@ -0,0 +1,151 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Headers,
+  Logger,
+  Query,
+  Res,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { timingSafeEqual } from 'crypto';
+import { Response } from 'express';
+import { toCsv } from '../common/csv';
+import {
+  PullRequestMetrics,
+  ReviewResponseMetrics,
+} from './interfaces/review-metrics.interface';
+import { ReviewMetricsService } from './metrics/review-metrics.service';
+
+interface MetricsExportQuery {
+  from?: string;
+  to?: string;
+  format?: string;
+}
+
+const DEFAULT_PERIOD_DAYS = 30;
+
+const PULL_REQUEST_COLUMNS: Array<keyof PullRequestMetrics> = [
+  'pullRequest',
+  'title',
+  'url',
+  'author',
+  'state',
+  'openedAt',
+  'firstReviewAt',
+  'closedAt',
+  'timeToFirstReview',
+  'timeToMerge',
+  'reviewRounds',
+  'approvals',
+  'changesRequests',
+];
+
+const REVIEW_RESPONSE_COLUMNS: Array<keyof ReviewResponseMetrics> = [
+  'pullRequest',
+  'reviewer',
+  'reviewerAccountId',
+  'requestedAt',
+  'respondedAt',
+  'responseTime',
+];
+
+@Controller('metrics')
+export class ReviewMetricsController {
+  private readonly logger: Logger = new Logger(ReviewMetricsController.name);
+
+  private readonly exportToken = this.configService.get<string>(
+    'metrics.exportToken',
+  );
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly reviewMetrics: ReviewMetricsService,
+  ) {}
+
+  @Get('pull-requests')
+  async exportPullRequests(
+    @Headers('authorization') authorization: string,
+    @Query() query: MetricsExportQuery,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<PullRequestMetrics[] | string> {
+    this.verifyToken(authorization);
+    const { from, to } = this.getPeriod(query);
+
+    return this.formatExport(
+      await this.reviewMetrics.getPullRequestMetrics(from, to),
+      PULL_REQUEST_COLUMNS,
+      query,
+      response,
+    );
+  }
+
+  @Get('review-requests')
+  async exportReviewRequests(
+    @Headers('authorization') authorization: string,
+    @Query() query: MetricsExportQuery,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<ReviewResponseMetrics[] | string> {
+    this.verifyToken(authorization);
+    const { from, to } = this.getPeriod(query);
+
+    return this.formatExport(
+      await this.reviewMetrics.getReviewResponses(from, to),
+      REVIEW_RESPONSE_COLUMNS,
+      query,
+      response,
+    );
+  }
+
+  private formatExport<T extends object>(
+    rows: T[],
+    columns: Array<keyof T & string>,
+    query: MetricsExportQuery,
+    response: Response,
+  ): T[] | string {
+    const format = query.format ?? 'json';
+    if (format === 'json') {
+      return rows;
+    }
+    if (format !== 'csv') {
+      throw new BadRequestException(`Unsupported format "${format}"`);
+    }
+
+    response.type('text/csv');
+    return toCsv(rows, columns);
+  }
+
+  // Dates or ISO timestamps; the last 30 days by default.
+  private getPeriod(query: MetricsExportQuery): { from: Date; to: Date } {
+    const to = query.to ? new Date(query.to) : new Date();
+    const from = query.from
+      ? new Date(query.from)
+      : new Date(to.getTime() - DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      throw new BadRequestException('Invalid export period');
+    }
+    return { from, to };
+  }
+
+  private verifyToken(authorization: string): void {
+    if (!this.exportToken) {
+      this.logger.warn(
+        'Rejected metrics export: METRICS_EXPORT_TOKEN is not configured',
+      );
+      throw new UnauthorizedException('Metrics export is not configured');
+    }
+
+    const expected = Buffer.from(`Bearer ${this.exportToken}`);
+    const received = Buffer.from(authorization ?? '');
+
+    if (
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received)
+    ) {
+      this.logger.warn('Rejected metrics export with invalid token');
+      throw new UnauthorizedException('Invalid metrics export token');
+    }
+  }
+}
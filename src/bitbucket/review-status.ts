@@ -0,0 +1,125 @@
+import {
+  MergeBlocker,
+  MergePolicy,
+  MergeReadiness,
+} from '../merge-policy/interfaces/merge-policy.interface';
+import {
+  BitbucketUser,
+  PullRequest,
+} from './interfaces/pull-request.interface';
+
+export type ReviewStatus =
+  | 'waiting_for_review'
+  | 'changes_requested'
+  | 'approved';
+
+function findParticipant(pr: PullRequest, user: BitbucketUser) {
+  return pr.participants.find((p) => p.user.account_id === user.account_id);
+}
+
+// Reviewers who have neither approved nor requested changes yet. Under a
+// merge policy nobody is pending once the PR has the approvals it needs.
+export function getPendingReviewers(
+  pr: PullRequest,
+  policy?: MergePolicy,
+): BitbucketUser[] {
+  if (policy && isReviewPolicyMet(pr, policy)) {
+    return [];
+  }
+
+  return pr.reviewers.filter((reviewer) => {
+    const participant = findParticipant(pr, reviewer);
+    return !participant?.approved && participant?.state !== 'changes_requested';
+  });
+}
+
+export function hasPendingReviewers(
+  pr: PullRequest,
+  policy?: MergePolicy,
+): boolean {
+  return getPendingReviewers(pr, policy).length > 0;
+}
+
+export function isApprovedByAllReviewers(pr: PullRequest): boolean {
+  return (
+    pr.reviewers.length > 0 &&
+    pr.reviewers.every(
+      (reviewer) => findParticipant(pr, reviewer)?.approved === true,
+    )
+  );
+}
+
+// A change request outweighs approvals, and a PR without reviewers is still
+// waiting for someone to look at it.
+export function getReviewStatus(
+  pr: PullRequest,
+  policy?: MergePolicy,
+): ReviewStatus {
+  if (pr.participants.some((p) => p.state === 'changes_requested')) {
+    return 'changes_requested';
+  }
+
+  const approved = policy
+    ? isReviewPolicyMet(pr, policy)
+    : isApprovedByAllReviewers(pr);
+  return approved ? 'approved' : 'waiting_for_review';
+}
+
+// The reviewers' part of the policy: enough approvals and, if required, no
+// outstanding change requests.
+export function isReviewPolicyMet(
+  pr: PullRequest,
+  policy: MergePolicy,
+): boolean {
+  return getMergeReadiness(pr, policy).blockers.every(
+    (blocker) =>
+      blocker.type !== 'approvals' && blocker.type !== 'changes_requested',
+  );
+}
+
+// Approvals count from anyone, as in Bitbucket's merge checks. Without a
+// required number every reviewer has to approve.
+export function getMergeReadiness(
+  pr: PullRequest,
+  policy: MergePolicy,
+): MergeReadiness {
+  const approvals = pr.participants.filter((p) => p.approved).length;
+  const requiredApprovals = policy.requiredApprovals ?? pr.reviewers.length;
+  const blockers: MergeBlocker[] = [];
+
+  const approvalsMissing =
+    policy.requiredApprovals === undefined
+      ? !isApprovedByAllReviewers(pr)
+      : approvals < requiredApprovals;
+  if (approvalsMissing) {
+    blockers.push({
+      type: 'approvals',
+      approvals,
+      required: Math.max(requiredApprovals, 1),
+    });
+  }
+
+  const requestedChanges = pr.participants
+    .filter((p) => p.state === 'changes_requested')
+    .map((p) => p.user);
+  if (policy.noChangesRequested && requestedChanges.length > 0) {
+    blockers.push({ type: 'changes_requested', users: requestedChanges });
+  }
+
+  if (policy.tasksResolved && pr.tasks?.open) {
+    blockers.push({ type: 'open_tasks', count: pr.tasks.open });
+  }
+
+  // PRs without any build statuses are not blocked, nor are new commits
+  // whose build has not reported yet.
+  if (policy.passingBuild && pr.build?.status && pr.build.status !== 'passed') {
+    blockers.push({ type: 'build', status: pr.build.status });
+  }
+
+  return {
+    ready: blockers.length === 0,
+    approvals,
+    requiredApprovals,
+    blockers,
+  };
+}
@@ -0,0 +1,126 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { matchesCodeOwnersPattern } from '../../common/glob';
+import {
+  formatPullRequestKey,
+  getPullRequestKey,
+} from '../../pachka/store/pull-request-key';
+import { UserDirectoryService } from '../../users/user-directory.service';
+import { WorkScheduleService } from '../../work-schedule/work-schedule.service';
+import { PullRequest } from '../interfaces/pull-request.interface';
+import { ReviewerAssignment } from '../interfaces/pull-request-event.interface';
+import {
+  AutoAssignPolicy,
+  CodeOwnersRule,
+  RepositoryConfig,
+} from '../interfaces/workspace.config';
+import { MergePolicyService } from '../../merge-policy/merge-policy.service';
+
+@Injectable()
+export class ReviewerAssignmentService {
+  private readonly defaultPolicy: AutoAssignPolicy = {
+    enabled: this.configService.get<boolean>('autoAssign.enabled', false),
+    reviewers: this.configService.get<number>('autoAssign.reviewers', 2),
+    pool: [],
+    codeOwners: [],
+  };
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly userDirectory: UserDirectoryService,
+    private readonly workSchedule: WorkScheduleService,
+    private readonly mergePolicy: MergePolicyService,
+  ) {}
+
+  getPolicy(repositoryConfig?: RepositoryConfig): AutoAssignPolicy {
+    return { ...this.defaultPolicy, ...repositoryConfig?.autoAssign };
+  }
+
+  // Every area touched by the PR gets its least loaded available owner, then
+  // the least loaded people from the pool fill up the remaining places.
+  // Ties go to whoever is listed first.
+  pickReviewers(
+    pr: PullRequest,
+    changedFiles: string[],
+    openPRs: PullRequest[],
+    policy: AutoAssignPolicy,
+  ): ReviewerAssignment[] {
+    const prKey = formatPullRequestKey(getPullRequestKey(pr));
+    const load = this.getReviewLoad(
+      openPRs.filter(
+        (openPR) => formatPullRequestKey(getPullRequestKey(openPR)) !== prKey,
+      ),
+    );
+    const assignments: ReviewerAssignment[] = [];
+
+    const pickLeastLoaded = (accountIds: string[]): string | undefined =>
+      accountIds
+        .filter(
+          (accountId) =>
+            accountId !== pr.author.account_id &&
+            !pr.reviewers.some((r) => r.account_id === accountId) &&
+            !assignments.some((a) => a.reviewer.account_id === accountId) &&
+            this.workSchedule.isAvailable(
+              this.userDirectory.getUser(accountId),
+            ),
+        )
+        .sort((a, b) => (load.get(a) ?? 0) - (load.get(b) ?? 0))[0];
+
+    for (const rule of this.getMatchedRules(changedFiles, policy.codeOwners)) {
+      if (
+        assignments.some((a) => rule.owners.includes(a.reviewer.account_id))
+      ) {
+        continue;
+      }
+
+      const owner = pickLeastLoaded(rule.owners);
+      if (owner) {
+        assignments.push({
+          reviewer: this.userDirectory.getUser(owner),
+          ownedPattern: rule.pattern,
+          load: load.get(owner) ?? 0,
+        });
+      }
+    }
+
+    while (pr.reviewers.length + assignments.length < policy.reviewers) {
+      const reviewer = pickLeastLoaded(policy.pool);
+      if (!reviewer) {
+        break;
+      }
+      assignments.push({
+        reviewer: this.userDirectory.getUser(reviewer),
+        load: load.get(reviewer) ?? 0,
+      });
+    }
+
+    return assignments;
+  }
+
+  // Distinct rules owning the changed files, in the order of the files.
+  private getMatchedRules(
+    changedFiles: string[],
+    rules: CodeOwnersRule[],
+  ): CodeOwnersRule[] {
+    const matched = new Set<CodeOwnersRule>();
+    for (const path of changedFiles) {
+      const rule = [...rules]
+        .reverse()
+        .find((item) => matchesCodeOwnersPattern(path, item.pattern));
+      if (rule) {
+        matched.add(rule);
+      }
+    }
+    return [...matched];
+  }
+
+  private getReviewLoad(openPRs: PullRequest[]): Map<string, number> {
+    const load = new Map<string, number>();
+    for (const pr of openPRs) {
+      for (const reviewer of this.mergePolicy.getPendingReviewers(pr)) {
+        load.set(reviewer.account_id, (load.get(reviewer.account_id) ?? 0) + 1);
+      }
+    }
+    return load;
+  }
+}
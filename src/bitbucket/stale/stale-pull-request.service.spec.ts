@@ -0,0 +1,147 @@
+import { ConfigService } from '@nestjs/config';
+import { PullRequestKey } from '../../pachka/store/pull-request-key';
+import { KeyValueStorage } from '../../storage/interfaces/key-value-storage.interface';
+import { WorkScheduleService } from '../../work-schedule/work-schedule.service';
+import { PullRequest } from '../interfaces/pull-request.interface';
+import { StalePolicy } from '../interfaces/workspace.config';
+import { StalePullRequestService } from './stale-pull-request.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const key: PullRequestKey = { workspace: 'ws', repository: 'repo', prId: 1 };
+
+const policy: StalePolicy = {
+  afterWorkingHours: 24,
+  commentOnPullRequest: true,
+};
+
+// Every hour is a working hour.
+const workSchedule = {
+  getWorkingHoursBetween: (from: Date, to: Date) =>
+    (to.getTime() - from.getTime()) / HOUR_MS,
+} as WorkScheduleService;
+
+function createPullRequest(updatedOn: string): PullRequest {
+  const author = { account_id: 'author', display_name: 'Author' };
+  return {
+    id: 1,
+    title: 'Add feature',
+    description: '',
+    created_on: '2026-10-01T08:00:00Z',
+    updated_on: updatedOn,
+    state: 'OPEN',
+    author,
+    reviewers: [],
+    participants: [],
+    source: {
+      branch: { name: 'feature' },
+      commit: { hash: 'aaa111' },
+      repository: { full_name: 'ws/repo' },
+    },
+    destination: {
+      branch: { name: 'main' },
+      repository: { full_name: 'ws/repo' },
+    },
+    links: { html: { href: 'https://bitbucket.org/ws/repo/pull-requests/1' } },
+  };
+}
+
+describe('StalePullRequestService', () => {
+  let service: StalePullRequestService;
+
+  beforeEach(() => {
+    const entries = new Map<string, unknown>();
+    const storage = {
+      get: async (collection: string, id: string) =>
+        entries.get(`${collection}:${id}`) ?? null,
+      set: async (collection: string, id: string, value: unknown) => {
+        entries.set(`${collection}:${id}`, value);
+      },
+    } as KeyValueStorage;
+
+    service = new StalePullRequestService(
+      new ConfigService({}),
+      workSchedule,
+      storage,
+    );
+  });
+
+  it('escalates a PR idle for longer than the policy allows', async () => {
+    const pr = createPullRequest('2026-10-01T08:00:00Z');
+
+    expect(
+      await service.getEscalation(
+        key,
+        pr,
+        policy,
+        new Date('2026-10-02T07:00:00Z'),
+      ),
+    ).toBeNull();
+    expect(
+      await service.getEscalation(
+        key,
+        pr,
+        policy,
+        new Date('2026-10-02T10:00:00Z'),
+      ),
+    ).toEqual({ idleWorkingHours: 26 });
+  });
+
+  it('escalates once per period of inactivity', async () => {
+    const pr = createPullRequest('2026-10-01T08:00:00Z');
+    await service.markEscalated(key, pr, new Date('2026-10-02T10:00:00Z'));
+
+    expect(
+      await service.getEscalation(
+        key,
+        pr,
+        policy,
+        new Date('2026-10-05T10:00:00Z'),
+      ),
+    ).toBeNull();
+  });
+
+  it("does not count the bot's own comment as activity", async () => {
+    await service.markEscalated(
+      key,
+      createPullRequest('2026-10-01T08:00:00Z'),
+      new Date('2026-10-02T10:00:01Z'),
+    );
+    const commented = createPullRequest('2026-10-02T10:00:00.5+00:00');
+
+    expect(
+      await service.getEscalation(
+        key,
+        commented,
+        policy,
+        new Date('2026-10-05T10:00:00Z'),
+      ),
+    ).toBeNull();
+  });
+
+  it('starts a new period on activity after the escalation', async () => {
+    await service.markEscalated(
+      key,
+      createPullRequest('2026-10-01T08:00:00Z'),
+      new Date('2026-10-02T10:00:01Z'),
+    );
+    const updated = createPullRequest('2026-10-03T10:00:00Z');
+
+    expect(
+      await service.getEscalation(
+        key,
+        updated,
+        policy,
+        new Date('2026-10-04T09:00:00Z'),
+      ),
+    ).toBeNull();
+    expect(
+      await service.getEscalation(
+        key,
+        updated,
+        policy,
+        new Date('2026-10-04T12:00:00Z'),
+      ),
+    ).toEqual({ idleWorkingHours: 26 });
+  });
+});
@@ -0,0 +1,95 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  formatPullRequestKey,
+  PullRequestKey,
+} from '../../pachka/store/pull-request-key';
+import { KeyValueStorage } from '../../storage/interfaces/key-value-storage.interface';
+import { STORAGE } from '../../storage/storage.constants';
+import { WorkScheduleService } from '../../work-schedule/work-schedule.service';
+import { PullRequest } from '../interfaces/pull-request.interface';
+import { RepositoryConfig, StalePolicy } from '../interfaces/workspace.config';
+
+export interface StaleState {
+  escalatedAt: string; // after the bot's own comment on the PR, if any
+  updatedOn: string; // `updated_on` of the PR when it was escalated
+}
+
+export interface StaleEscalation {
+  idleWorkingHours: number;
+}
+
+const COLLECTION = 'stale-state';
+
+@Injectable()
+export class StalePullRequestService {
+  private readonly defaultPolicy: StalePolicy = {
+    afterWorkingHours: this.configService.get<number>(
+      'stale.afterWorkingHours',
+      24,
+    ),
+    teamLead: this.configService.get<string>('stale.teamLead'),
+    commentOnPullRequest: this.configService.get<boolean>(
+      'stale.commentOnPullRequest',
+      false,
+    ),
+  };
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly workSchedule: WorkScheduleService,
+    @Inject(STORAGE) private readonly storage: KeyValueStorage,
+  ) {}
+
+  getPolicy(repositoryConfig?: RepositoryConfig): StalePolicy {
+    return { ...this.defaultPolicy, ...repositoryConfig?.stale };
+  }
+
+  // A PR is escalated once per period of inactivity: any update resets
+  // `updated_on` and with it the idle time. The bot's own comment on the PR
+  // updates it too, so updates made until the escalation was recorded do not
+  // count as activity.
+  async getEscalation(
+    key: PullRequestKey,
+    pr: PullRequest,
+    policy: StalePolicy,
+    now: Date = new Date(),
+  ): Promise<StaleEscalation | null> {
+    const state = await this.storage.get<StaleState>(
+      COLLECTION,
+      formatPullRequestKey(key),
+    );
+    const lastActivity =
+      state && new Date(pr.updated_on) <= new Date(state.escalatedAt)
+        ? state.updatedOn
+        : pr.updated_on;
+    if (state?.updatedOn === lastActivity) {
+      return null;
+    }
+
+    const idleWorkingHours = this.workSchedule.getWorkingHoursBetween(
+      new Date(lastActivity),
+      now,
+    );
+    if (idleWorkingHours < policy.afterWorkingHours) {
+      return null;
+    }
+
+    return { idleWorkingHours };
+  }
+
+  async markEscalated(
+    key: PullRequestKey,
+    pr: PullRequest,
+    now: Date = new Date(),
+  ): Promise<void> {
+    await this.storage.set<StaleState>(COLLECTION, formatPullRequestKey(key), {
+      escalatedAt: now.toISOString(),
+      updatedOn: pr.updated_on,
+    });
+  }
+
+  async clear(key: PullRequestKey): Promise<void> {
+    await this.storage.delete(COLLECTION, formatPullRequestKey(key));
+  }
+}
@@ -0,0 +1,557 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  MERGE_STRATEGIES,
+  PullRequestAction,
+  PullRequestActionsService,
+} from '../bitbucket/actions/pull-request-actions.service';
+import { BitbucketService } from '../bitbucket/bitbucket.service';
+import { PullRequestControlsService } from '../bitbucket/controls/pull-request-controls.service';
+import {
+  BitbucketUser,
+  PullRequest,
+} from '../bitbucket/interfaces/pull-request.interface';
+import { MergePolicyService } from '../merge-policy/merge-policy.service';
+import { WorkspaceConfigService } from '../config/workspace-config.service';
+import { PachkaService, ReplyTarget } from '../pachka/pachka.service';
+import { ChatRoutingService } from '../pachka/routing/chat-routing.service';
+import {
+  MessageStoreService,
+  StoredPR,
+} from '../pachka/store/message-store.service';
+import {
+  formatPullRequestKey,
+  getPullRequestKey,
+  PullRequestKey,
+} from '../pachka/store/pull-request-key';
+import { UserProfile } from '../users/interfaces/user-profile.interface';
+import { UserDirectoryService } from '../users/user-directory.service';
+import { WorkScheduleService } from '../work-schedule/work-schedule.service';
+import { PachkaWebhookPayload } from './interfaces/pachka-webhook.interface';
+
+interface CommandContext {
+  payload: PachkaWebhookPayload;
+  args: string[];
+  replyTo: ReplyTarget;
+  storedPR: StoredPR | null; // set when the command was posted in a PR thread
+}
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  м: 60 * 1000,
+  h: 60 * 60 * 1000,
+  ч: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  д: 24 * 60 * 60 * 1000,
+};
+
+const HELP_MESSAGE = [
+  '🤖 *Команды бота*',
+  '',
+  '`/prs` — открытые PR этого чата',
+  '`/mine` — моя очередь ревью',
+  '`/snooze 2h` — отложить уведомления по PR (в треде PR), `/snooze off` — вернуть',
+  '`/mute` — отключить уведомления по PR (в треде PR), `/unmute` — включить',
+  '`/mute workspace/repo` — отключить уведомления по репозиторию',
+  '`/label blocked` — пометить PR (в треде PR), `/unlabel blocked` — снять метку',
+  '`/remind @user` — напомнить пользователю о PR (в треде) или о его очереди',
+  '`/approve` — одобрить PR в Bitbucket (в треде PR)',
+  '`/changes причина` — запросить изменения (в треде PR)',
+  '`/merge` — влить PR, можно указать стратегию: `/merge squash` (в треде PR)',
+].join('\n');
+
+@Injectable()
+export class BotCommandsService {
+  private readonly logger: Logger = new Logger(BotCommandsService.name);
+
+  constructor(
+    private readonly bitbucketService: BitbucketService,
+    private readonly pachkaService: PachkaService,
+    private readonly messageStore: MessageStoreService,
+    private readonly chatRouting: ChatRoutingService,
+    private readonly controls: PullRequestControlsService,
+    private readonly userDirectory: UserDirectoryService,
+    private readonly workspaceConfig: WorkspaceConfigService,
+    private readonly workSchedule: WorkScheduleService,
+    private readonly actions: PullRequestActionsService,
+    private readonly mergePolicy: MergePolicyService,
+  ) {}
+
+  async handleMessage(payload: PachkaWebhookPayload): Promise<void> {
+    const content = payload.content.trim();
+    if (!content.startsWith('/')) {
+      return;
+    }
+
+    const [command, ...args] = content.split(/\s+/);
+    const replyTo: ReplyTarget =
+      payload.entity_type === 'thread'
+        ? { parentMessageId: payload.entity_id.toString() }
+        : { chatId: payload.chat_id.toString() };
+
+    try {
+      const context: CommandContext = {
+        payload,
+        args,
+        replyTo,
+        storedPR: await this.findThreadPullRequest(payload),
+      };
+
+      this.logger.debug('Received bot command:', {
+        command,
+        args,
+        userId: payload.user_id,
+        prKey: context.storedPR?.key,
+      });
+
+      switch (command.toLowerCase()) {
+        case '/prs':
+          return await this.listPullRequests(context);
+        case '/mine':
+          return await this.showOwnQueue(context);
+        case '/snooze':
+          return await this.snooze(context);
+        case '/mute':
+          return await this.setMuted(context, true);
+        case '/unmute':
+          return await this.setMuted(context, false);
+        case '/label':
+          return await this.setLabel(context, true);
+        case '/unlabel':
+          return await this.setLabel(context, false);
+        case '/remind':
+          return await this.remind(context);
+        case '/approve':
+          return await this.approve(context);
+        case '/changes':
+          return await this.requestChanges(context);
+        case '/merge':
+          return await this.merge(context);
+        case '/help':
+          return await this.reply(context, HELP_MESSAGE);
+        default:
+          // Commands of other bots and slash-prefixed text in shared chats
+          // are not answered.
+          this.logger.debug('Ignoring unknown command:', { command });
+          return;
+      }
+    } catch (error) {
+      this.logger.error(`Failed to handle command ${command}:`, error.message);
+      await this.pachkaService.sendReply(
+        replyTo,
+        '❌ Не удалось выполнить команду',
+      );
+    }
+  }
+
+  private async findThreadPullRequest(
+    payload: PachkaWebhookPayload,
+  ): Promise<StoredPR | null> {
+    if (payload.entity_type !== 'thread') {
+      return null;
+    }
+
+    return (
+      (await this.messageStore.findByMessageId(payload.entity_id.toString())) ??
+      (payload.thread
+        ? await this.messageStore.findByMessageId(
+            payload.thread.message_id.toString(),
+          )
+        : null)
+    );
+  }
+
+  // In a chat: the PRs routed to that chat. In a direct message: all PRs.
+  private async listPullRequests(context: CommandContext): Promise<void> {
+    const { payload } = context;
+    const prs = await this.bitbucketService.getTrackedOpenPullRequests();
+    const chatId = (
+      payload.thread?.message_chat_id ?? payload.chat_id
+    ).toString();
+
+    await this.pachkaService.sendPullRequestOverview(
+      context.replyTo,
+      payload.entity_type === 'user'
+        ? prs
+        : prs.filter(
+            (pr) =>
+              this.chatRouting.resolvePullRequestChat(
+                getPullRequestKey(pr),
+                pr.destination.branch.name,
+              ) === chatId,
+          ),
+    );
+  }
+
+  private async showOwnQueue(context: CommandContext): Promise<void> {
+    const profile = this.userDirectory.findByPachkaUserId(
+      context.payload.user_id,
+    );
+    if (!profile) {
+      return this.reply(
+        context,
+        'Не нашёл вас в справочнике пользователей: добавьте свой `pachkaUserId`',
+      );
+    }
+
+    await this.pachkaService.sendReviewQueue(
+      context.replyTo,
+      this.toBitbucketUser(profile),
+      await this.bitbucketService.getTrackedOpenPullRequests(),
+    );
+  }
+
+  private async snooze(context: CommandContext): Promise<void> {
+    const { storedPR, args } = context;
+    if (!storedPR) {
+      return this.reply(context, 'Команда `/snooze` работает в треде PR');
+    }
+
+    if (args[0]?.toLowerCase() === 'off') {
+      await this.controls.snooze(storedPR, null);
+      return this.reply(context, '🔔 Уведомления по PR снова включены');
+    }
+
+    const duration = this.parseDuration(args[0]);
+    if (!duration) {
+      return this.reply(
+        context,
+        'Укажите срок, например `/snooze 2h`, `/snooze 30m` или `/snooze 1d`',
+      );
+    }
+
+    const until = new Date(Date.now() + duration);
+    await this.controls.snooze(storedPR, until);
+    await this.reply(
+      context,
+      `💤 Уведомления по PR отложены до ${until.toLocaleString('ru-RU', {
+        timeZone: this.workSchedule.schedule.timezone,
+        day: '2-digit',
+        month: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+      })}`,
+    );
+  }
+
+  // `/mute` in a PR thread mutes the PR, `/mute <repo>` the repository.
+  private async setMuted(
+    context: CommandContext,
+    muted: boolean,
+  ): Promise<void> {
+    const { storedPR, args } = context;
+
+    if (args[0]) {
+      const repository = this.findRepository(args[0]);
+      if (!repository) {
+        return this.reply(context, `Репозиторий ${args[0]} не отслеживается`);
+      }
+
+      await this.controls.setRepositoryMuted(
+        repository.workspace,
+        repository.repository,
+        muted,
+      );
+      return this.reply(
+        context,
+        muted
+          ? `🔇 Уведомления по репозиторию ${repository.workspace}/${repository.repository} отключены`
+          : `🔔 Уведомления по репозиторию ${repository.workspace}/${repository.repository} включены`,
+      );
+    }
+
+    if (!storedPR) {
+      return this.reply(
+        context,
+        'Используйте `/mute` в треде PR или укажите репозиторий: `/mute workspace/repo`',
+      );
+    }
+
+    await this.controls.setMuted(storedPR, muted);
+    await this.reply(
+      context,
+      muted
+        ? '🔇 Уведомления по PR отключены, кроме закрытия PR'
+        : '🔔 Уведомления по PR включены',
+    );
+  }
+
+  private async setLabel(context: CommandContext, add: boolean): Promise<void> {
+    const { storedPR } = context;
+    const label = context.args[0]?.toLowerCase();
+    if (!storedPR || !label) {
+      return this.reply(
+        context,
+        'Используйте в треде PR: `/label blocked` или `/unlabel blocked`',
+      );
+    }
+
+    if (add) {
+      await this.controls.addLabel(storedPR, label);
+    } else {
+      await this.controls.removeLabel(storedPR, label);
+    }
+
+    const { labels = [] } = await this.controls.getControls(storedPR);
+    await this.reply(
+      context,
+      [
+        `🏷 Метки PR: ${labels.length > 0 ? labels.join(', ') : 'нет'}`,
+        ...(labels.some((item) => this.controls.isDoNotRemindLabel(item))
+          ? ['Напоминания по PR не отправляются']
+          : []),
+      ].join('\n'),
+    );
+  }
+
+  private async remind(context: CommandContext): Promise<void> {
+    const { storedPR, args } = context;
+    const profile = args[0] && this.userDirectory.findByMention(args[0]);
+    if (!profile) {
+      return this.reply(
+        context,
+        args[0]
+          ? `Пользователь ${args[0]} не найден в справочнике пользователей`
+          : 'Укажите пользователя: `/remind @user`',
+      );
+    }
+
+    const user = this.toBitbucketUser(profile);
+    const prs = await this.bitbucketService.getTrackedOpenPullRequests();
+
+    if (!storedPR) {
+      return this.pachkaService.sendReviewQueue(context.replyTo, user, prs);
+    }
+
+    const pr = prs.find(
+      (item) => formatPullRequestKey(getPullRequestKey(item)) === storedPR.key,
+    );
+    if (!pr) {
+      return this.reply(context, 'PR уже закрыт');
+    }
+
+    await this.pachkaService.sendPersonalReminder(
+      pr,
+      user,
+      context.replyTo.parentMessageId,
+    );
+  }
+
+  private async approve(context: CommandContext): Promise<void> {
+    const target = await this.getActionTarget(context, '/approve', 'approve');
+    if (!target) {
+      return;
+    }
+
+    const { pr, profile } = target;
+    if (!this.actions.isReviewer(pr, profile)) {
+      await this.recordDenied(context, 'approve', profile, 'not a reviewer');
+      return this.reply(context, '⛔ Одобрить PR может только его ревьюер');
+    }
+
+    await this.runAction(
+      context,
+      () => this.actions.approve(pr, profile),
+      `✅ PR одобрен от имени ${this.userDirectory.getDisplayName(this.toBitbucketUser(profile))}`,
+    );
+  }
+
+  private async requestChanges(context: CommandContext): Promise<void> {
+    const target = await this.getActionTarget(
+      context,
+      '/changes',
+      'request_changes',
+    );
+    if (!target) {
+      return;
+    }
+
+    const { pr, profile } = target;
+    if (!this.actions.isReviewer(pr, profile)) {
+      await this.recordDenied(
+        context,
+        'request_changes',
+        profile,
+        'not a reviewer',
+      );
+      return this.reply(
+        context,
+        '⛔ Запросить изменения может только ревьюер PR',
+      );
+    }
+
+    const reason = context.args.join(' ');
+    await this.runAction(
+      context,
+      () => this.actions.requestChanges(pr, profile, reason || undefined),
+      [
+        `🔴 Изменения запрошены от имени ${this.userDirectory.getDisplayName(this.toBitbucketUser(profile))}`,
+        ...(reason ? [`Причина: ${reason}`] : []),
+      ].join('\n'),
+    );
+  }
+
+  private async merge(context: CommandContext): Promise<void> {
+    const target = await this.getActionTarget(context, '/merge', 'merge');
+    if (!target) {
+      return;
+    }
+
+    const { pr, profile } = target;
+    const mergeStrategy = context.args[0]?.toLowerCase();
+    if (mergeStrategy && !MERGE_STRATEGIES.includes(mergeStrategy)) {
+      return this.reply(
+        context,
+        `Неизвестная стратегия ${mergeStrategy}, доступны: ${MERGE_STRATEGIES.join(', ')}`,
+      );
+    }
+    if (!this.actions.canMerge(pr, profile)) {
+      await this.recordDenied(
+        context,
+        'merge',
+        profile,
+        'not the author or a merger',
+      );
+      return this.reply(
+        context,
+        '⛔ Влить PR может только его автор или мейнтейнер',
+      );
+    }
+    const readiness = this.mergePolicy.getReadiness(pr);
+    if (!readiness.ready) {
+      await this.recordDenied(
+        context,
+        'merge',
+        profile,
+        `merge policy not met: ${readiness.blockers.map((blocker) => blocker.type).join(', ')}`,
+      );
+      return this.pachkaService.sendMergeBlockers(context.replyTo, readiness);
+    }
+
+    await this.runAction(
+      context,
+      () => this.actions.merge(pr, profile, mergeStrategy),
+      '🟣 PR отправлен на слияние',
+    );
+  }
+
+  // The open PR of the thread and the sender's profile, or null after
+  // replying why the action can't be taken.
+  private async getActionTarget(
+    context: CommandContext,
+    command: string,
+    action: PullRequestAction,
+  ): Promise<{ pr: PullRequest; profile: UserProfile } | null> {
+    const { storedPR } = context;
+    if (!storedPR) {
+      await this.reply(context, `Команда \`${command}\` работает в треде PR`);
+      return null;
+    }
+
+    const profile = this.userDirectory.findByPachkaUserId(
+      context.payload.user_id,
+    );
+    if (!profile) {
+      await this.recordDenied(context, action, undefined, 'unknown user');
+      await this.reply(
+        context,
+        'Не нашёл вас в справочнике пользователей: добавьте свой `pachkaUserId`',
+      );
+      return null;
+    }
+    if (!this.actions.canAct(profile)) {
+      await this.recordDenied(
+        context,
+        action,
+        profile,
+        'no Bitbucket credentials',
+      );
+      await this.reply(
+        context,
+        'Чтобы действовать из Pachka, добавьте `bitbucketCredentials` в справочник пользователей',
+      );
+      return null;
+    }
+
+    const pr = (await this.bitbucketService.getTrackedOpenPullRequests()).find(
+      (item) => formatPullRequestKey(getPullRequestKey(item)) === storedPR.key,
+    );
+    if (!pr) {
+      await this.recordDenied(context, action, profile, 'PR is closed');
+      await this.reply(context, 'PR уже закрыт');
+      return null;
+    }
+
+    return { pr, profile };
+  }
+
+  private async recordDenied(
+    context: CommandContext,
+    action: PullRequestAction,
+    profile: UserProfile | undefined,
+    error: string,
+  ): Promise<void> {
+    await this.actions.recordDenied(
+      action,
+      context.storedPR.key,
+      context.payload.user_id,
+      profile,
+      error,
+    );
+  }
+
+  // Errors returned by Bitbucket, e.g. failed merge checks, are shown as is.
+  // The failure itself is logged with the audit entry.
+  private async runAction(
+    context: CommandContext,
+    action: () => Promise<void>,
+    confirmation: string,
+  ): Promise<void> {
+    try {
+      await action();
+    } catch (error) {
+      const reason = error.response?.data?.error?.message ?? error.message;
+      return this.reply(context, `❌ Bitbucket отклонил действие: ${reason}`);
+    }
+
+    await this.reply(context, confirmation);
+  }
+
+  private async reply(context: CommandContext, message: string): Promise<void> {
+    await this.pachkaService.sendReply(context.replyTo, message);
+  }
+
+  // Accepts `workspace/repo` or a repository name that is unique among the
+  // tracked workspaces.
+  private findRepository(
+    name: string,
+  ): Omit<PullRequestKey, 'prId'> | undefined {
+    const [workspace, repository] = name.includes('/')
+      ? name.split('/')
+      : [undefined, name];
+
+    const matches = this.workspaceConfig.workspaces.flatMap((config) =>
+      config.repositories
+        .filter(
+          (repo) =>
+            repo.name === repository &&
+            (!workspace || config.name === workspace),
+        )
+        .map((repo) => ({ workspace: config.name, repository: repo.name })),
+    );
+
+    return matches.length === 1 ? matches[0] : undefined;
+  }
+
+  private parseDuration(value?: string): number | null {
+    const match = /^(\d+)([a-zа-я])$/i.exec(value ?? '');
+    const unit = match && DURATION_UNITS_MS[match[2].toLowerCase()];
+    return unit ? Number(match[1]) * unit : null;
+  }
+
+  private toBitbucketUser(profile: UserProfile): BitbucketUser {
+    return {
+      account_id: profile.accountId,
+      display_name: profile.displayName ?? profile.accountId,
+    };
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { BitbucketModule } from '../bitbucket/bitbucket.module';
+import { WorkspaceConfigModule } from '../config/workspace-config.module';
+import { PachkaModule } from '../pachka/pachka.module';
+import { UsersModule } from '../users/users.module';
+import { WorkScheduleModule } from '../work-schedule/work-schedule.module';
+import { MergePolicyModule } from '../merge-policy/merge-policy.module';
+import { BotCommandsService } from './bot-commands.service';
+import { PachkaWebhookController } from './pachka-webhook.controller';
+
+@Module({
+  imports: [
+    BitbucketModule,
+    PachkaModule,
+    UsersModule,
+    WorkspaceConfigModule,
+    WorkScheduleModule,
+    MergePolicyModule,
+  ],
+  controllers: [PachkaWebhookController],
+  providers: [BotCommandsService],
+})
+export class CommandsModule {}
@@ -0,0 +1,17 @@
+// Payload of a Pachka outgoing webhook for a new message.
+export interface PachkaWebhookPayload {
+  type: 'message';
+  event: 'new' | 'update' | 'delete';
+  id: number;
+  entity_type: 'discussion' | 'thread' | 'user';
+  entity_id: number;
+  content: string;
+  user_id: number;
+  chat_id: number;
+  created_at: string;
+  webhook_timestamp?: number; // unix seconds, for replay protection
+  thread?: {
+    message_id: number; // root message the thread belongs to
+    message_chat_id: number; // chat of the root message
+  } | null;
+}
@@ -0,0 +1,97 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Post,
+  RawBodyRequest,
+  Req,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+import { BotCommandsService } from './bot-commands.service';
+import { PachkaWebhookPayload } from './interfaces/pachka-webhook.interface';
+
+// Pachka retries are not expected to be older than this.
+const MAX_WEBHOOK_AGE_SECONDS = 60;
+
+@Controller('webhooks/pachka')
+export class PachkaWebhookController {
+  private readonly logger: Logger = new Logger(PachkaWebhookController.name);
+
+  private readonly webhookSecret = this.configService.get<string>(
+    'pachka.webhookSecret',
+  );
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly botCommands: BotCommandsService,
+  ) {}
+
+  @Post()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async handleWebhook(
+    @Req() request: RawBodyRequest<Request>,
+    @Headers('pachca-signature') signature: string,
+    @Body() payload: PachkaWebhookPayload,
+  ): Promise<void> {
+    this.verifySignature(request.rawBody, signature);
+
+    if (payload?.type !== 'message' || payload.event !== 'new') {
+      this.logger.debug('Ignoring Pachka webhook:', {
+        type: payload?.type,
+        event: payload?.event,
+      });
+      return;
+    }
+
+    if (typeof payload.content !== 'string' || !payload.chat_id) {
+      throw new BadRequestException('Invalid webhook payload');
+    }
+
+    if (
+      payload.webhook_timestamp &&
+      Math.abs(Date.now() / 1000 - payload.webhook_timestamp) >
+        MAX_WEBHOOK_AGE_SECONDS
+    ) {
+      this.logger.warn('Rejected outdated Pachka webhook');
+      throw new UnauthorizedException('Outdated webhook');
+    }
+
+    await this.botCommands.handleMessage(payload);
+  }
+
+  private verifySignature(
+    rawBody: Buffer | undefined,
+    signature: string,
+  ): void {
+    if (!this.webhookSecret) {
+      this.logger.warn(
+        'Rejected webhook: PACHKA_WEBHOOK_SECRET is not configured',
+      );
+      throw new UnauthorizedException('Webhook secret is not configured');
+    }
+
+    if (!rawBody || !signature) {
+      throw new UnauthorizedException('Missing webhook signature');
+    }
+
+    const expected = Buffer.from(
+      createHmac('sha256', this.webhookSecret).update(rawBody).digest('hex'),
+    );
+    const received = Buffer.from(signature);
+
+    if (
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received)
+    ) {
+      this.logger.warn('Rejected Pachka webhook with invalid signature');
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+  }
+}
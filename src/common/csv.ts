@@ -0,0 +1,20 @@
+// RFC 4180 CSV: fields with commas, quotes or line breaks are quoted and
+// missing values are left empty.
+function formatCsvField(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T extends object>(
+  rows: T[],
+  columns: Array<keyof T & string>,
+): string {
+  return [
+    columns.join(','),
+    ...rows.map((row) =>
+      columns.map((column) => formatCsvField(row[column])).join(','),
+    ),
+  ]
+    .map((line) => `${line}\r\n`)
+    .join('');
+}
@@ -0,0 +1,42 @@
+// Minimal glob matcher for branch names and file paths: `*` matches within a
+// path segment, `**` across segments and `?` a single character.
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      source += '.*';
+      i++;
+      if (pattern[i + 1] === '/') {
+        source = source.slice(0, -2) + '(?:.*/)?';
+        i++;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesGlob(value: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(value);
+}
+
+// CODEOWNERS semantics: a pattern without an inner slash matches at any
+// depth, a leading slash anchors it to the repository root, and a directory
+// pattern covers everything below it.
+export function matchesCodeOwnersPattern(
+  path: string,
+  pattern: string,
+): boolean {
+  const anchored =
+    pattern.startsWith('/') || pattern.slice(0, -1).includes('/');
+  const glob = pattern.replace(/^\//, '').replace(/\/$/, '');
+  const pathGlob = anchored ? glob : `**/${glob}`;
+
+  return matchesGlob(path, pathGlob) || matchesGlob(path, `${pathGlob}/**`);
+}
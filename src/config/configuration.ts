@@ -1,11 +1,37 @@
+import * as path from 'path';
+
 export default () => ({
   port: parseInt(process.env.PORT, 10) || 3000,
   pachka: {
     webhookUrl: process.env.PACHKA_WEBHOOK_URL,
     botToken: process.env.PACHKA_BOT_TOKEN,
     chatId: process.env.PACHKA_CHAT_ID,
+    opsChatId: process.env.PACHKA_OPS_CHAT_ID,
     apiUrl: process.env.PACHKA_API_URL,
+    appUrl: process.env.PACHKA_APP_URL || 'https://app.pachca.com',
     reviewers: process.env.REVIEWER_MAPPINGS,
+    // Signing secret of the outgoing webhook used for bot commands
+    webhookSecret: process.env.PACHKA_WEBHOOK_SECRET,
+    requestTimeoutMs: parseInt(
+      process.env.PACHKA_REQUEST_TIMEOUT_MS || '10000',
+      10,
+    ),
+    queue: {
+      drainIntervalMs: parseInt(
+        process.env.PACHKA_QUEUE_DRAIN_INTERVAL_MS || '5000',
+        10,
+      ),
+      batchSize: parseInt(process.env.PACHKA_QUEUE_BATCH_SIZE || '1', 10),
+      maxRetries: parseInt(process.env.PACHKA_QUEUE_MAX_RETRIES || '5', 10),
+      baseRetryDelayMs: parseInt(
+        process.env.PACHKA_QUEUE_BASE_RETRY_DELAY_MS || '2000',
+        10,
+      ),
+      maxRetryDelayMs: parseInt(
+        process.env.PACHKA_QUEUE_MAX_RETRY_DELAY_MS || '300000',
+        10,
+      ),
+    },
   },
   bitbucket: {
     apiUrl: process.env.BITBUCKET_API_URL,
@@ -15,11 +41,112 @@ export default () => ({
     repository: process.env.BITBUCKET_REPOSITORY,
     pollInterval: parseInt(process.env.POLL_INTERVAL || '300', 10),
     workspaces: process.env.BITBUCKET_WORKSPACES,
+    maxPages: parseInt(process.env.BITBUCKET_MAX_PAGES || '10', 10),
+    fullSweepCron: process.env.BITBUCKET_FULL_SWEEP_CRON || '0 * * * *',
+    webhookSecret: process.env.BITBUCKET_WEBHOOK_SECRET,
+    // Fetch commit statuses (CI builds) of open PRs
+    buildStatuses: process.env.BITBUCKET_BUILD_STATUSES !== 'false',
+    // Post PR comments and resolved tasks in the PR thread
+    comments: process.env.BITBUCKET_COMMENTS !== 'false',
+  },
+  users: {
+    directoryPath: process.env.USER_DIRECTORY_PATH,
+  },
+  reminders: {
+    firstAfterHours: parseFloat(process.env.REMINDER_FIRST_AFTER_HOURS || '4'),
+    intervalHours: parseFloat(process.env.REMINDER_INTERVAL_HOURS || '24'),
+    escalateAfter: parseInt(process.env.REMINDER_ESCALATE_AFTER || '3', 10),
+    waitForGreenBuild: process.env.REMINDER_WAIT_FOR_GREEN_BUILD === 'true',
+  },
+  stale: {
+    afterWorkingHours: parseFloat(
+      process.env.STALE_AFTER_WORKING_HOURS || '24',
+    ),
+    teamLead: process.env.STALE_TEAM_LEAD,
+    commentOnPullRequest: process.env.STALE_COMMENT_ON_PR === 'true',
+  },
+  mergePolicy: {
+    // Unset: every reviewer has to approve
+    requiredApprovals: process.env.MERGE_REQUIRED_APPROVALS
+      ? parseInt(process.env.MERGE_REQUIRED_APPROVALS, 10)
+      : undefined,
+    noChangesRequested: process.env.MERGE_NO_CHANGES_REQUESTED !== 'false',
+    tasksResolved: process.env.MERGE_TASKS_RESOLVED !== 'false',
+    passingBuild: process.env.MERGE_PASSING_BUILD === 'true',
+    // Also read the policy from Bitbucket branch restrictions
+    fromBranchRestrictions:
+      process.env.MERGE_POLICY_FROM_BRANCH_RESTRICTIONS === 'true',
+  },
+  autoAssign: {
+    enabled: process.env.AUTO_ASSIGN_ENABLED === 'true',
+    reviewers: parseInt(process.env.AUTO_ASSIGN_REVIEWERS || '2', 10),
+  },
+  storage: {
+    driver: process.env.STORAGE_DRIVER || 'json',
+    dataDir: process.env.STORAGE_DATA_DIR || path.join(process.cwd(), 'data'),
+    sqlitePath: process.env.STORAGE_SQLITE_PATH,
   },
   workSchedule: {
-    workDays: process.env.WORK_SCHEDULE_WORK_DAYS,
-    startHour: process.env.WORK_SCHEDULE_START_HOUR,
-    endHour: process.env.WORK_SCHEDULE_END_HOUR,
+    workDays: process.env.WORK_SCHEDULE_WORK_DAYS
+      ? JSON.parse(process.env.WORK_SCHEDULE_WORK_DAYS)
+      : undefined,
+    startHour: process.env.WORK_SCHEDULE_START_HOUR
+      ? parseInt(process.env.WORK_SCHEDULE_START_HOUR, 10)
+      : undefined,
+    endHour: process.env.WORK_SCHEDULE_END_HOUR
+      ? parseInt(process.env.WORK_SCHEDULE_END_HOUR, 10)
+      : undefined,
     timezone: process.env.WORK_SCHEDULE_TIMEZONE,
+    // e.g. ["10:00-13:00","14:00-18:30"], replaces start and end hours
+    hours: process.env.WORK_SCHEDULE_HOURS
+      ? JSON.parse(process.env.WORK_SCHEDULE_HOURS)
+      : undefined,
+    // Comma-separated .json or .ics files
+    holidaysPath: process.env.WORK_SCHEDULE_HOLIDAYS_PATH,
+  },
+  quietHours: {
+    // PR event types posted immediately even outside working hours
+    urgentEvents: (process.env.QUIET_HOURS_URGENT_EVENTS || '')
+      .split(',')
+      .map((type) => type.trim())
+      .filter(Boolean),
+  },
+  controls: {
+    // PR labels (set with /label) that stop reminders and escalations
+    doNotRemindLabels: (
+      process.env.DO_NOT_REMIND_LABELS || 'blocked,on-hold,do-not-remind'
+    )
+      .split(',')
+      .map((label) => label.trim().toLowerCase())
+      .filter(Boolean),
+    draftTitlePrefixes: (
+      process.env.DRAFT_TITLE_PREFIXES || 'WIP:,Draft:,[WIP],[Draft]'
+    )
+      .split(',')
+      .map((prefix) => prefix.trim())
+      .filter(Boolean),
+  },
+  actions: {
+    // Run /approve, /changes and /merge through the bot's Bitbucket account
+    // for users without their own credentials
+    serviceAccount: process.env.BITBUCKET_ACTIONS_SERVICE_ACCOUNT === 'true',
+    // Bitbucket account ids allowed to merge PRs of other authors
+    mergers: (process.env.BITBUCKET_MERGERS || '')
+      .split(',')
+      .map((accountId) => accountId.trim())
+      .filter(Boolean),
+  },
+  digest: {
+    enabled: process.env.DIGEST_ENABLED !== 'false',
+    // Defaults to the start of every work day from the work schedule.
+    cron: process.env.DIGEST_CRON,
+  },
+  metrics: {
+    enabled: process.env.METRICS_ENABLED !== 'false',
+    // Defaults to the start of the work day every Monday.
+    reportCron: process.env.METRICS_REPORT_CRON,
+    // Bearer token for GET /metrics/*; the export is off without it
+    exportToken: process.env.METRICS_EXPORT_TOKEN,
+    retentionDays: parseInt(process.env.METRICS_RETENTION_DAYS || '180', 10),
   },
 });
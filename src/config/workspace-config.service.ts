@@ -0,0 +1,49 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  RawWorkspaceConfig,
+  RepositoryConfig,
+  WorkspaceConfig,
+} from '../bitbucket/interfaces/workspace.config';
+
+@Injectable()
+export class WorkspaceConfigService {
+  private readonly logger: Logger = new Logger(WorkspaceConfigService.name);
+
+  readonly workspaces: WorkspaceConfig[] = this.loadWorkspacesConfig();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  private loadWorkspacesConfig(): WorkspaceConfig[] {
+    const workspacesConfig = this.configService.get<string>(
+      'bitbucket.workspaces',
+    );
+    try {
+      const workspaces: RawWorkspaceConfig[] = JSON.parse(workspacesConfig);
+      return workspaces.map((workspace) => ({
+        ...workspace,
+        repositories: workspace.repositories.map((repository) =>
+          typeof repository === 'string' ? { name: repository } : repository,
+        ),
+      }));
+    } catch (error) {
+      this.logger.error('Failed to parse workspaces configuration', error);
+      return [];
+    }
+  }
+
+  findWorkspaceConfig(workspaceName: string): WorkspaceConfig | undefined {
+    return this.workspaces.find(
+      (workspace) => workspace.name === workspaceName,
+    );
+  }
+
+  findRepositoryConfig(
+    workspaceName: string,
+    repository: string,
+  ): RepositoryConfig | undefined {
+    return this.findWorkspaceConfig(workspaceName)?.repositories.find(
+      ({ name }) => name === repository,
+    );
+  }
+}
@@ -5,7 +5,7 @@ import { MessageStoreService } from './pachka/store/message-store.service';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create(AppModule, { rawBody: true });
 
   const messageStore = app.get(MessageStoreService);
   logger.log(`Message store location: ${messageStore.getStorePath()}`);
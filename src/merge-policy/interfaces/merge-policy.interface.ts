@@ -0,0 +1,34 @@
+import { BuildStatus } from '../../bitbucket/interfaces/commit-status.interface';
+import { BitbucketUser } from '../../bitbucket/interfaces/pull-request.interface';
+
+export interface MergePolicy {
+  requiredApprovals?: number; // unset: every reviewer has to approve
+  noChangesRequested: boolean; // no outstanding change requests
+  tasksResolved: boolean; // no open PR tasks
+  passingBuild: boolean; // the source commit's build is green
+}
+
+export interface BranchMergePolicy extends Partial<MergePolicy> {
+  branch: string; // glob matched against the destination branch
+}
+
+// Bitbucket branch restriction, as returned by /branch-restrictions.
+export interface BranchRestriction {
+  kind: string;
+  branch_match_kind: 'glob' | 'branching_model';
+  pattern?: string;
+  value?: number | null;
+}
+
+export type MergeBlocker =
+  | { type: 'approvals'; approvals: number; required: number }
+  | { type: 'changes_requested'; users: BitbucketUser[] }
+  | { type: 'open_tasks'; count: number }
+  | { type: 'build'; status: BuildStatus };
+
+export interface MergeReadiness {
+  ready: boolean;
+  approvals: number;
+  requiredApprovals: number;
+  blockers: MergeBlocker[];
+}
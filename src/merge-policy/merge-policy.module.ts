@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { WorkspaceConfigModule } from '../config/workspace-config.module';
+import { MergePolicyService } from './merge-policy.service';
+
+@Module({
+  imports: [WorkspaceConfigModule],
+  providers: [MergePolicyService],
+  exports: [MergePolicyService],
+})
+export class MergePolicyModule {}
@@ -0,0 +1,136 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  BitbucketUser,
+  PullRequest,
+} from '../bitbucket/interfaces/pull-request.interface';
+import {
+  getMergeReadiness,
+  getPendingReviewers,
+  getReviewStatus,
+  ReviewStatus,
+} from '../bitbucket/review-status';
+import { matchesGlob } from '../common/glob';
+import { WorkspaceConfigService } from '../config/workspace-config.service';
+import { getPullRequestKey } from '../pachka/store/pull-request-key';
+import {
+  BranchRestriction,
+  MergePolicy,
+  MergeReadiness,
+} from './interfaces/merge-policy.interface';
+
+@Injectable()
+export class MergePolicyService {
+  private readonly logger: Logger = new Logger(MergePolicyService.name);
+
+  private readonly defaultPolicy: MergePolicy = {
+    requiredApprovals: this.configService.get<number>(
+      'mergePolicy.requiredApprovals',
+    ),
+    noChangesRequested: this.configService.get<boolean>(
+      'mergePolicy.noChangesRequested',
+      true,
+    ),
+    tasksResolved: this.configService.get<boolean>(
+      'mergePolicy.tasksResolved',
+      true,
+    ),
+    passingBuild: this.configService.get<boolean>(
+      'mergePolicy.passingBuild',
+      false,
+    ),
+  };
+
+  readonly usesBranchRestrictions: boolean = this.configService.get<boolean>(
+    'mergePolicy.fromBranchRestrictions',
+    false,
+  );
+
+  // Branch restrictions by "workspace/repository", refreshed by the sweep.
+  private readonly branchRestrictions = new Map<string, BranchRestriction[]>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly workspaceConfig: WorkspaceConfigService,
+  ) {}
+
+  setBranchRestrictions(
+    workspace: string,
+    repository: string,
+    restrictions: BranchRestriction[],
+  ): void {
+    this.branchRestrictions.set(`${workspace}/${repository}`, restrictions);
+    this.logger.debug('Branch restrictions loaded:', {
+      repository: `${workspace}/${repository}`,
+      restrictions: restrictions.length,
+    });
+  }
+
+  // Settings from BITBUCKET_WORKSPACES override Bitbucket's branch
+  // restrictions, which override the global defaults.
+  getPolicy(pr: PullRequest): MergePolicy {
+    const { workspace, repository } = getPullRequestKey(pr);
+    const branch = pr.destination.branch.name;
+    const branchPolicy = this.workspaceConfig
+      .findRepositoryConfig(workspace, repository)
+      ?.mergePolicies?.find((policy) => matchesGlob(branch, policy.branch));
+
+    return {
+      ...this.defaultPolicy,
+      ...this.getRestrictionPolicy(`${workspace}/${repository}`, branch),
+      ...branchPolicy,
+    };
+  }
+
+  getReadiness(pr: PullRequest): MergeReadiness {
+    return getMergeReadiness(pr, this.getPolicy(pr));
+  }
+
+  getPendingReviewers(pr: PullRequest): BitbucketUser[] {
+    return getPendingReviewers(pr, this.getPolicy(pr));
+  }
+
+  getReviewStatus(pr: PullRequest): ReviewStatus {
+    return getReviewStatus(pr, this.getPolicy(pr));
+  }
+
+  // Branching model restrictions (e.g. "all release branches") are skipped:
+  // resolving them needs the repository's branching model.
+  private getRestrictionPolicy(
+    repositoryKey: string,
+    branch: string,
+  ): Partial<MergePolicy> {
+    const policy: Partial<MergePolicy> = {};
+    const restrictions = (
+      this.branchRestrictions.get(repositoryKey) ?? []
+    ).filter(
+      (restriction) =>
+        restriction.branch_match_kind === 'glob' &&
+        !!restriction.pattern &&
+        matchesGlob(branch, restriction.pattern),
+    );
+
+    for (const restriction of restrictions) {
+      switch (restriction.kind) {
+        case 'require_approvals_to_merge':
+        case 'require_default_reviewer_approvals_to_merge':
+          policy.requiredApprovals = Math.max(
+            policy.requiredApprovals ?? 0,
+            restriction.value ?? 0,
+          );
+          break;
+        case 'require_no_changes_requested':
+          policy.noChangesRequested = true;
+          break;
+        case 'require_tasks_to_be_completed':
+          policy.tasksResolved = true;
+          break;
+        case 'require_passing_builds_to_merge':
+          policy.passingBuild = true;
+          break;
+      }
+    }
+
+    return policy;
+  }
+}
@@ -1,9 +1,28 @@
 import { Module } from '@nestjs/common';
 import { PachkaService } from './pachka.service';
 import { MessageStoreService } from './store/message-store.service';
+import { MessageQueueService } from './queue/message-queue.service';
+import { ChatRoutingService } from './routing/chat-routing.service';
+import { StorageModule } from '../storage/storage.module';
+import { WorkspaceConfigModule } from '../config/workspace-config.module';
+import { UsersModule } from '../users/users.module';
+import { WorkScheduleModule } from '../work-schedule/work-schedule.module';
+import { MergePolicyModule } from '../merge-policy/merge-policy.module';
 
 @Module({
-  providers: [PachkaService, MessageStoreService],
-  exports: [PachkaService, MessageStoreService],
+  imports: [
+    StorageModule,
+    WorkspaceConfigModule,
+    UsersModule,
+    WorkScheduleModule,
+    MergePolicyModule,
+  ],
+  providers: [
+    PachkaService,
+    MessageStoreService,
+    MessageQueueService,
+    ChatRoutingService,
+  ],
+  exports: [PachkaService, MessageStoreService, ChatRoutingService],
 })
 export class PachkaModule {}
@@ -1,55 +1,152 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
-import { PullRequest } from '../bitbucket/interfaces/pull-request.interface';
-import { MessageStoreService } from './store/message-store.service';
-import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  BitbucketUser,
+  PullRequest,
+} from '../bitbucket/interfaces/pull-request.interface';
+import { PullRequestEvent } from '../bitbucket/interfaces/pull-request-event.interface';
+import { BuildStatus } from '../bitbucket/interfaces/commit-status.interface';
+import { PullRequestComment } from '../bitbucket/interfaces/pull-request-comment.interface';
+import { ReviewReport } from '../bitbucket/interfaces/review-metrics.interface';
+import { MessageStoreService, StoredPR } from './store/message-store.service';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import {
+  formatPullRequestKey,
+  getPullRequestKey,
+  PullRequestKey,
+} from './store/pull-request-key';
+import {
+  EnqueueMessageOptions,
+  MessageQueueService,
+  QueuedMessage,
+} from './queue/message-queue.service';
+import { ChatRoutingService } from './routing/chat-routing.service';
+import { UserDirectoryService } from '../users/user-directory.service';
+import { WorkScheduleService } from '../work-schedule/work-schedule.service';
+import { getMergeReadiness, ReviewStatus } from '../bitbucket/review-status';
+import { MergePolicyService } from '../merge-policy/merge-policy.service';
+import {
+  MergeBlocker,
+  MergeReadiness,
+} from '../merge-policy/interfaces/merge-policy.interface';
+import {
+  computeBackoffMs,
+  getRetryAfterMs,
+  isRetryableError,
+  RetryPolicy,
+  ThreadNotReadyError,
+} from './queue/retry-policy';
 
-interface QueuedMessage {
-  message: string;
+// Where a command reply goes: a chat or a thread.
+export interface ReplyTarget {
+  chatId?: string;
   parentMessageId?: string;
-  prId?: number;
-  repository?: string;
-  retries: number;
 }
 
-interface StoredPR {
-  prId: string;
-  repository: string;
-  messageId: string;
+interface QueueConfig {
+  drainIntervalMs: number;
+  batchSize: number;
 }
 
-type ReviewerMappings = {
-  [key: string]: string;
+// Events that are posted in the PR thread, as opposed to the root message.
+type ThreadEvent = Exclude<PullRequestEvent, { type: 'opened' }>;
+
+const QUEUE_INTERVAL_NAME = 'pachka-message-queue';
+
+// Alerts about dead letters are not alerted on themselves when they fail.
+const DEAD_LETTER_ALERT_PREFIX = 'dead-letter-alert:';
+
+// Idempotency key of a PR's root message, which creates its thread.
+function getRootMessageKey(prKey: PullRequestKey): string {
+  return `${formatPullRequestKey(prKey)}:opened`;
+}
+
+// Longer Bitbucket comments are cut, the link leads to the full text.
+const MAX_COMMENT_LENGTH = 500;
+
+const PULL_REQUEST_HEADERS: Record<PullRequest['state'], string> = {
+  OPEN: '🟢 *Новый Pull Request*',
+  MERGED: '🟣 *Pull Request влит*',
+  DECLINED: '⛔ *Pull Request отклонён*',
+  SUPERSEDED: '♻️ *Pull Request заменён*',
+};
+
+const DIGEST_SECTIONS: Array<[ReviewStatus, string]> = [
+  ['waiting_for_review', '⏳ Ждут ревью:'],
+  ['changes_requested', '🔴 Запрошены изменения:'],
+  ['approved', '✅ Одобрены, ждут мерджа:'],
+];
+
+const BUILD_STATUSES: Record<BuildStatus, string> = {
+  passed: '✅ прошла',
+  failed: '❌ упала',
+  in_progress: '⏳ идёт',
+};
+
+const PULL_REQUEST_STATES: Record<PullRequest['state'], string> = {
+  OPEN: 'Открыт',
+  MERGED: 'Влит',
+  DECLINED: 'Отклонён',
+  SUPERSEDED: 'Заменён',
 };
 
 @Injectable()
-export class PachkaService {
+export class PachkaService implements OnModuleInit, OnModuleDestroy {
   private readonly logger: Logger = new Logger(PachkaService.name);
 
   private readonly apiClient?: AxiosInstance;
 
-  private readonly messageQueue: QueuedMessage[] = [];
-
   private isProcessing = false;
 
-  private readonly MAX_RETRIES = 3;
-
-  private readonly chatId = this.configService.get('pachka.chatId');
+  private pausedUntil = 0;
 
-  private readonly reviewerMappings: ReviewerMappings = JSON.parse(
-    this.configService.get('pachka.reviewers') || '{}',
+  private readonly appUrl: string = this.configService.get(
+    'pachka.appUrl',
+    'https://app.pachca.com',
   );
 
+  private readonly queueConfig: QueueConfig = {
+    drainIntervalMs: this.configService.get<number>(
+      'pachka.queue.drainIntervalMs',
+      5000,
+    ),
+    batchSize: this.configService.get<number>('pachka.queue.batchSize', 1),
+  };
+
+  private readonly retryPolicy: RetryPolicy = {
+    maxRetries: this.configService.get<number>('pachka.queue.maxRetries', 5),
+    baseDelayMs: this.configService.get<number>(
+      'pachka.queue.baseRetryDelayMs',
+      2000,
+    ),
+    maxDelayMs: this.configService.get<number>(
+      'pachka.queue.maxRetryDelayMs',
+      5 * 60 * 1000,
+    ),
+  };
+
   constructor(
     private readonly configService: ConfigService,
     private readonly messageStore: MessageStoreService,
+    private readonly messageQueue: MessageQueueService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly chatRouting: ChatRoutingService,
+    private readonly userDirectory: UserDirectoryService,
+    private readonly workSchedule: WorkScheduleService,
+    private readonly mergePolicy: MergePolicyService,
   ) {
     const apiToken = this.configService.get('pachka.botToken');
     const apiUrl = this.configService.get('pachka.apiUrl');
 
     this.apiClient = axios.create({
       baseURL: apiUrl,
+      timeout: this.configService.get<number>('pachka.requestTimeoutMs', 10000),
       headers: {
         'Content-Type': 'application/json; charset=utf-8',
         Authorization: `Bearer ${apiToken}`,
@@ -57,174 +154,644 @@ export class PachkaService {
     });
   }
 
-  @Cron(CronExpression.EVERY_5_SECONDS)
+  onModuleInit(): void {
+    this.schedulerRegistry.addInterval(
+      QUEUE_INTERVAL_NAME,
+      setInterval(
+        () => this.processMessageQueue(),
+        this.queueConfig.drainIntervalMs,
+      ),
+    );
+
+    this.logger.log('Message queue drain configured:', {
+      intervalMs: this.queueConfig.drainIntervalMs,
+      batchSize: this.queueConfig.batchSize,
+    });
+  }
+
+  onModuleDestroy(): void {
+    this.schedulerRegistry.deleteInterval(QUEUE_INTERVAL_NAME);
+  }
+
   async processMessageQueue(): Promise<void> {
-    if (this.isProcessing || this.messageQueue.length === 0) {
+    if (this.isProcessing || Date.now() < this.pausedUntil) {
       return;
     }
 
     this.isProcessing = true;
     try {
-      const message = this.messageQueue[0];
+      const messages = await this.messageQueue.takeReady(
+        this.queueConfig.batchSize,
+      );
 
-      try {
-        let response: AxiosResponse<any, any>;
+      for (const message of messages) {
+        try {
+          await this.deliverMessage(message);
+          await this.messageQueue.complete(message);
+        } catch (error) {
+          await this.handleDeliveryFailure(message, error);
+          if (Date.now() < this.pausedUntil) {
+            break;
+          }
+        }
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
 
-        if (message.parentMessageId) {
-          this.logger.debug('Sending threaded message:', {
-            parentMessageId: message.parentMessageId,
-            prId: message.prId,
-          });
+  private async deliverMessage(message: QueuedMessage): Promise<void> {
+    let response: AxiosResponse<any, any>;
 
-          response = await this.apiClient.post('/messages', {
-            message: {
-              content: message.message,
-              entity_type: 'thread',
-              entity_id: message.parentMessageId,
-            },
-          });
+    if (message.editMessageId) {
+      this.logger.debug('Editing message:', {
+        messageId: message.editMessageId,
+        prKey: message.prKey && formatPullRequestKey(message.prKey),
+      });
 
-          this.logger.debug('Threaded message response:', {
-            status: response.status,
-            data: response.data,
-          });
-        } else {
-          response = await this.apiClient.post('/messages', {
-            message: {
-              content: message.message,
-              entity_type: 'discussion',
-              entity_id: this.chatId,
-            },
-          });
+      await this.apiClient.put(`/messages/${message.editMessageId}`, {
+        message: {
+          content: message.message,
+        },
+      });
+      return;
+    }
 
-          if (response.data?.data?.id) {
-            const messageId = response.data.data.id.toString();
-
-            const threadResponse = await this.apiClient.post(
-              `/messages/${messageId}/thread`,
-            );
-
-            this.logger.debug('Thread creation response:', {
-              status: threadResponse.status,
-              data: threadResponse.data,
-            });
-
-            if (message.prId && message.repository) {
-              await this.messageStore.saveMessageId(
-                message.prId,
-                threadResponse.data?.data?.id?.toString(),
-                message.repository,
-              );
-
-              this.logger.debug('Saved message and thread IDs:', {
-                prId: message.prId,
-                messageId,
-                threadId: threadResponse.data?.data?.id,
-                response: response.data.data,
-              });
-            }
-          }
-        }
+    if (message.recipientUserId) {
+      this.logger.debug('Sending direct message:', {
+        recipientUserId: message.recipientUserId,
+        prKey: message.prKey && formatPullRequestKey(message.prKey),
+      });
 
-        this.messageQueue.shift();
-      } catch (error) {
-        this.logger.error('Failed to process message:', {
-          error: error.message,
-          response: error.response?.data,
-          status: error.response?.status,
-        });
+      // The thread link is resolved at delivery time: for a new PR the root
+      // message is queued before the DM and may only just have been posted.
+      const storedPR =
+        message.prKey && (await this.messageStore.getStoredPR(message.prKey));
+      const threadLink = this.formatThreadLink(storedPR);
 
-        if (error.response?.status === 429) {
-          if (message.retries < this.MAX_RETRIES) {
-            message.retries++;
-          } else {
-            this.messageQueue.shift();
-          }
-        } else {
-          this.messageQueue.shift();
-        }
+      await this.apiClient.post('/messages', {
+        message: {
+          content: threadLink
+            ? `${message.message}\n💬 Обсуждение: ${threadLink}`
+            : message.message,
+          entity_type: 'user',
+          entity_id: message.recipientUserId,
+        },
+      });
+      return;
+    }
+
+    if (message.inPullRequestThread && !message.parentMessageId) {
+      message.parentMessageId =
+        message.prKey && (await this.messageStore.getMessageId(message.prKey));
+      if (!message.parentMessageId) {
+        throw new ThreadNotReadyError(
+          `Thread of PR ${message.prKey && formatPullRequestKey(message.prKey)} is not created yet`,
+        );
       }
-    } finally {
-      this.isProcessing = false;
     }
+
+    if (message.parentMessageId) {
+      this.logger.debug('Sending threaded message:', {
+        parentMessageId: message.parentMessageId,
+        prKey: message.prKey && formatPullRequestKey(message.prKey),
+      });
+
+      response = await this.apiClient.post('/messages', {
+        message: {
+          content: message.message,
+          entity_type: 'thread',
+          entity_id: message.parentMessageId,
+        },
+      });
+
+      this.logger.debug('Threaded message response:', {
+        status: response.status,
+        data: response.data,
+      });
+      return;
+    }
+
+    if (!message.rootMessageId) {
+      response = await this.apiClient.post('/messages', {
+        message: {
+          content: message.message,
+          entity_type: 'discussion',
+          entity_id: message.chatId ?? this.chatRouting.getDefaultChatId(),
+        },
+      });
+
+      message.rootMessageId = response.data?.data?.id?.toString();
+      if (message.rootMessageId) {
+        await this.messageQueue.update(message);
+      }
+    }
+
+    if (message.rootMessageId) {
+      const messageId = message.rootMessageId;
+
+      const threadResponse = await this.apiClient.post(
+        `/messages/${messageId}/thread`,
+      );
+
+      this.logger.debug('Thread creation response:', {
+        status: threadResponse.status,
+        data: threadResponse.data,
+      });
+
+      if (message.prKey) {
+        await this.messageStore.saveMessageId(
+          message.prKey,
+          threadResponse.data?.data?.id?.toString(),
+          { rootMessageId: messageId, chatId: message.chatId },
+        );
+
+        this.logger.debug('Saved message and thread IDs:', {
+          prKey: formatPullRequestKey(message.prKey),
+          messageId,
+          threadId: threadResponse.data?.data?.id,
+        });
+      }
+    }
+  }
+
+  private async handleDeliveryFailure(
+    message: QueuedMessage,
+    error: any,
+  ): Promise<void> {
+    if (error instanceof ThreadNotReadyError) {
+      await this.waitForThread(message, error.message);
+      return;
+    }
+
+    const status = error.response?.status;
+    this.logger.error('Failed to process message:', {
+      error: error.message,
+      response: error.response?.data,
+      status,
+      retries: message.retries,
+    });
+
+    const reason = status ? `HTTP ${status}: ${error.message}` : error.message;
+
+    if (!isRetryableError(error)) {
+      await this.deadLetter(message, reason);
+      return;
+    }
+
+    if (message.retries >= this.retryPolicy.maxRetries) {
+      await this.deadLetter(
+        message,
+        `Retries exhausted, last error: ${reason}`,
+      );
+      return;
+    }
+
+    message.retries++;
+    const retryAfterMs = getRetryAfterMs(error);
+    const delayMs =
+      retryAfterMs ?? computeBackoffMs(message.retries, this.retryPolicy);
+
+    // Pachka rate limits apply to the whole bot, so a 429 pauses the queue
+    // instead of letting the next message run into the same limit.
+    if (status === 429) {
+      this.pausedUntil = Date.now() + delayMs;
+    }
+
+    message.nextAttemptAt = new Date(Date.now() + delayMs).toISOString();
+    message.lastError = reason;
+    await this.messageQueue.update(message);
+
+    this.logger.warn('Message scheduled for retry:', {
+      id: message.id,
+      retries: message.retries,
+      delayMs,
+      honoredRetryAfter: retryAfterMs !== null,
+    });
   }
 
-  async sendPullRequestNotification(pr: PullRequest): Promise<boolean> {
+  // Thread messages wait for as long as the root message is being retried
+  // and do not use up their own attempts; they only give up with it.
+  private async waitForThread(
+    message: QueuedMessage,
+    reason: string,
+  ): Promise<void> {
+    if (
+      !message.prKey ||
+      !(await this.messageQueue.isPending(getRootMessageKey(message.prKey)))
+    ) {
+      await this.deadLetter(message, `${reason}, root message not queued`);
+      return;
+    }
+
+    message.nextAttemptAt = new Date(
+      Date.now() + this.retryPolicy.baseDelayMs,
+    ).toISOString();
+    message.lastError = reason;
+    await this.messageQueue.update(message);
+
+    this.logger.debug('Message waiting for its PR thread:', {
+      id: message.id,
+      prKey: formatPullRequestKey(message.prKey),
+    });
+  }
+
+  private async deadLetter(
+    message: QueuedMessage,
+    reason: string,
+  ): Promise<void> {
+    await this.messageQueue.deadLetter(message, reason);
+    if (message.id.startsWith(DEAD_LETTER_ALERT_PREFIX)) {
+      return;
+    }
+
+    await this.queueMessage({
+      message: [
+        '📭 *Сообщение не доставлено*',
+        '',
+        message.prKey && `*PR:* ${formatPullRequestKey(message.prKey)}`,
+        `*Причина:* ${reason}`,
+        '',
+        `_Сообщение сохранено в message-queue-dead-letter с ключом ${message.id}._`,
+      ]
+        .filter((line) => line !== undefined)
+        .join('\n'),
+      chatId: this.chatRouting.getOpsChatId(),
+      idempotencyKey: `${DEAD_LETTER_ALERT_PREFIX}${message.id}`,
+    });
+  }
+
+  async sendPullRequestEvents(
+    pr: PullRequest,
+    events: PullRequestEvent[],
+  ): Promise<boolean> {
+    return this.queuePullRequestEvents(pr, events, false);
+  }
+
+  // Events held during quiet hours are posted as one thread message instead
+  // of one message per event.
+  async sendPullRequestCatchUp(
+    pr: PullRequest,
+    events: PullRequestEvent[],
+  ): Promise<boolean> {
+    return this.queuePullRequestEvents(pr, events, true);
+  }
+
+  private async queuePullRequestEvents(
+    pr: PullRequest,
+    events: PullRequestEvent[],
+    catchUp: boolean,
+  ): Promise<boolean> {
     try {
-      const repository = pr.source.repository.full_name;
-      const existingMessageId = await this.messageStore.getMessageId(pr.id);
+      const prKey = getPullRequestKey(pr);
+      const storedPR = await this.messageStore.getStoredPR(prKey);
+      const existingMessageId = storedPR?.messageId;
 
-      this.logger.debug('Processing PR notification:', {
-        prId: pr.id,
+      this.logger.debug('Processing PR events:', {
+        prKey: formatPullRequestKey(prKey),
         title: pr.title,
         existingMessageId,
-        hasPendingReviewers: this.hasPendingReviewers(pr),
+        events: events.map((event) => event.type),
       });
 
-      if (existingMessageId) {
-        const updateMessage = this.formatPullRequestUpdateMessage(pr);
-        if (updateMessage) {
-          this.logger.debug('Found existing message, queueing update:', {
-            prId: pr.id,
-            messageId: existingMessageId,
-            hasUpdateMessage: !!updateMessage,
+      const rootKey = getRootMessageKey(prKey);
+      if (!existingMessageId) {
+        if (pr.state === 'OPEN') {
+          const formattedMessage = this.formatPullRequestMessage(pr);
+          await this.queueMessage({
+            message: formattedMessage.message,
+            prKey,
+            chatId: this.chatRouting.resolvePullRequestChat(
+              prKey,
+              pr.destination.branch.name,
+            ),
+            idempotencyKey: rootKey,
           });
-
-          this.queueMessage(
-            updateMessage,
-            existingMessageId,
-            pr.id,
-            repository,
+          await this.queueDirectMessages(
+            pr,
+            pr.reviewers,
+            '👀 Вас назначили ревьюером',
+            rootKey,
           );
-        } else {
-          this.logger.debug('No update needed for PR:', { prId: pr.id });
+        } else if (!(await this.messageQueue.isPending(rootKey))) {
+          // Closed before the bot ever posted it.
+          return true;
         }
-      } else {
-        const formattedMessage = this.formatPullRequestMessage(pr);
-        this.queueMessage(
-          formattedMessage.message,
-          undefined,
-          pr.id,
-          repository,
-        );
+      } else if (events.some((e) => e.type !== 'opened')) {
+        await this.queueRootMessageEdit(pr, storedPR);
+      }
+
+      // Until the root message is delivered, thread messages wait for the
+      // thread it gets; they are queued after it, so they are posted in order.
+      const thread: Pick<
+        EnqueueMessageOptions,
+        'parentMessageId' | 'inPullRequestThread'
+      > = existingMessageId
+        ? { parentMessageId: existingMessageId }
+        : { inPullRequestThread: true };
+
+      const threadEvents = events.filter(
+        (event): event is ThreadEvent => event.type !== 'opened',
+      );
+
+      if (catchUp && threadEvents.length > 0) {
+        await this.queueMessage({
+          message: this.formatCatchUpMessage(pr, threadEvents),
+          ...thread,
+          prKey,
+          idempotencyKey: `${formatPullRequestKey(prKey)}:catch-up:${pr.updated_on}`,
+        });
+      }
+
+      for (const event of threadEvents) {
+        if (!catchUp) {
+          await this.queueMessage({
+            message: this.formatPullRequestEventMessage(pr, event),
+            ...thread,
+            prKey,
+            idempotencyKey: this.getEventIdempotencyKey(pr, event),
+          });
+        }
+        await this.queueEventDirectMessages(pr, event);
+      }
+
+      const readiness = this.getMergeReadinessChange(pr, events);
+      if (readiness) {
+        await this.queueMessage({
+          message: this.formatMergeReadinessMessage(pr, readiness),
+          ...thread,
+          prKey,
+          idempotencyKey: [
+            formatPullRequestKey(prKey),
+            'merge-ready',
+            pr.updated_on,
+            ...readiness.blockers.map((blocker) => blocker.type),
+          ].join(':'),
+        });
       }
 
       return true;
     } catch (error) {
-      this.logger.error('Failed to queue PR notification:', error);
+      this.logger.error('Failed to queue PR events:', error);
       return false;
     }
   }
 
-  private hasPendingReviewers(pr: PullRequest): boolean {
-    return pr.reviewers.some((reviewer) => {
-      const participant = pr.participants.find(
-        (p) => p.user.account_id === reviewer.account_id,
+  // Refreshes the root message for changes that are not posted in the thread.
+  async updatePullRequestMessage(pr: PullRequest): Promise<void> {
+    const storedPR = await this.messageStore.getStoredPR(getPullRequestKey(pr));
+    if (storedPR) {
+      await this.queueRootMessageEdit(pr, storedPR);
+    }
+  }
+
+  private async queueRootMessageEdit(
+    pr: PullRequest,
+    storedPR: StoredPR,
+  ): Promise<void> {
+    if (!storedPR.rootMessageId) {
+      return;
+    }
+
+    const prKey = getPullRequestKey(pr);
+    await this.queueMessage({
+      message: this.formatPullRequestMessage(pr).message,
+      prKey,
+      editMessageId: storedPR.rootMessageId,
+      idempotencyKey: [
+        formatPullRequestKey(prKey),
+        'root',
+        pr.updated_on,
+        pr.build?.hash,
+        pr.build?.status,
+        pr.tasks && `tasks-${pr.tasks.open}`,
+      ]
+        .filter(Boolean)
+        .join(':'),
+    });
+  }
+
+  async sendReviewReminder(
+    pr: PullRequest,
+    reminderCount: number,
+    escalated: boolean,
+  ): Promise<boolean> {
+    try {
+      const prKey = getPullRequestKey(pr);
+      const threadId = await this.messageStore.getMessageId(prKey);
+      const pendingReviewers = this.mergePolicy.getPendingReviewers(pr);
+
+      if (!threadId || pendingReviewers.length === 0) {
+        return false;
+      }
+
+      const buildLine = pr.build?.status
+        ? [`Сборка: ${BUILD_STATUSES[pr.build.status]}`]
+        : [];
+      const message = escalated
+        ? [
+            '⚠️ *Ревью затянулось*',
+            `PR: ${pr.title}`,
+            `Автор: ${this.userDirectory.formatMention(pr.author)}`,
+            `Напоминание №${reminderCount}, PR открыт ${this.formatAge(pr.created_on)}`,
+            ...buildLine,
+            '',
+            'Ожидается ревью от:',
+            ...this.formatReviewerList(pendingReviewers),
+            '',
+            `🔗 ${pr.links.html.href}`,
+          ].join('\n')
+        : [
+            '🔄 Напоминание о ревью',
+            `PR: ${pr.title}`,
+            ...buildLine,
+            '',
+            'Ожидается ревью от:',
+            ...this.formatReviewerList(pendingReviewers),
+            '',
+            `🔗 ${pr.links.html.href}`,
+          ].join('\n');
+
+      // Held back until at least one of the pending reviewers is at work.
+      const now = new Date();
+      const notBefore = new Date(
+        Math.min(
+          ...pendingReviewers.map((reviewer) =>
+            this.workSchedule.getNextWorkingTime(now, reviewer).getTime(),
+          ),
+        ),
       );
-      return (
-        !participant?.approved && participant?.state !== 'changes_requested'
+
+      await this.queueMessage({
+        message,
+        parentMessageId: threadId,
+        prKey,
+        idempotencyKey: `${formatPullRequestKey(prKey)}:reminder:${reminderCount}`,
+        notBefore,
+      });
+      await this.queueDirectMessages(
+        pr,
+        pendingReviewers,
+        escalated
+          ? `⚠️ Ревью затянулось, PR открыт ${this.formatAge(pr.created_on)}`
+          : '🔄 Напоминание: PR ждёт вашего ревью',
+        `${formatPullRequestKey(prKey)}:reminder:${reminderCount}`,
       );
-    });
+      return true;
+    } catch (error) {
+      this.logger.error('Failed to queue review reminder:', error);
+      return false;
+    }
   }
 
-  private queueMessage(
-    message: string,
-    parentMessageId?: string,
-    prId?: number,
-    repository?: string,
-  ): void {
-    this.messageQueue.push({
-      message,
-      parentMessageId,
-      prId,
-      repository,
-      retries: 0,
-    });
+  async sendStaleEscalation(
+    pr: PullRequest,
+    idleWorkingHours: number,
+    teamLead?: string,
+  ): Promise<boolean> {
+    try {
+      const prKey = getPullRequestKey(pr);
+      const threadId = await this.messageStore.getMessageId(prKey);
+      if (!threadId) {
+        return false;
+      }
+
+      const message = [
+        '🕸 *PR завис*',
+        `PR: ${pr.title}`,
+        `Нет активности ${Math.floor(idleWorkingHours)} рабочих ч., PR открыт ${this.formatAge(pr.created_on)}`,
+        '',
+        `Автор: ${this.userDirectory.formatMention(pr.author)}`,
+        ...(teamLead
+          ? [`Тимлид: ${this.userDirectory.formatAccountMention(teamLead)}`]
+          : []),
+        '',
+        `🔗 ${pr.links.html.href}`,
+      ].join('\n');
+
+      await this.queueMessage({
+        message,
+        parentMessageId: threadId,
+        prKey,
+        idempotencyKey: `${formatPullRequestKey(prKey)}:stale:${pr.updated_on}`,
+      });
+      return true;
+    } catch (error) {
+      this.logger.error('Failed to queue stale PR escalation:', error);
+      return false;
+    }
+  }
+
+  private formatReviewerList(reviewers: BitbucketUser[]): string[] {
+    return reviewers.map(
+      (reviewer) => `• ${this.userDirectory.formatMention(reviewer)}`,
+    );
+  }
+
+  private async queueEventDirectMessages(
+    pr: PullRequest,
+    event: PullRequestEvent,
+  ): Promise<void> {
+    if (event.type === 'ready_for_review') {
+      await this.queueDirectMessages(
+        pr,
+        pr.reviewers,
+        '🚀 PR готов к ревью',
+        this.getEventIdempotencyKey(pr, event),
+      );
+    }
+
+    if (event.type === 'reviewers_added') {
+      await this.queueDirectMessages(
+        pr,
+        event.reviewers.filter(
+          (reviewer) => reviewer.account_id !== event.user.account_id,
+        ),
+        '👀 Вас назначили ревьюером',
+        this.getEventIdempotencyKey(pr, event),
+      );
+    }
+
+    // New commits after a change request mean the PR is ready for another
+    // look from everyone who asked for changes.
+    if (event.type === 'commits_pushed') {
+      const requestedChanges = pr.participants
+        .filter((participant) => participant.state === 'changes_requested')
+        .map((participant) => participant.user);
+
+      await this.queueDirectMessages(
+        pr,
+        requestedChanges,
+        '🔁 PR обновлён и готов к повторному ревью',
+        this.getEventIdempotencyKey(pr, event),
+      );
+    }
+  }
+
+  private async queueDirectMessages(
+    pr: PullRequest,
+    users: BitbucketUser[],
+    headline: string,
+    idempotencyKey: string,
+  ): Promise<void> {
+    const message = [
+      headline,
+      `PR: ${pr.title}`,
+      `Автор: ${this.userDirectory.getDisplayName(pr.author)}`,
+      `Репозиторий: ${pr.destination.repository.full_name}`,
+      '',
+      `🔗 ${pr.links.html.href}`,
+    ].join('\n');
+
+    for (const user of users) {
+      const recipientUserId =
+        this.userDirectory.getDirectMessageRecipient(user);
+      if (!recipientUserId || user.account_id === pr.author.account_id) {
+        continue;
+      }
+
+      await this.queueMessage({
+        message,
+        prKey: getPullRequestKey(pr),
+        recipientUserId,
+        idempotencyKey: `${idempotencyKey}:dm:${user.account_id}`,
+        notBefore: this.workSchedule.getNextWorkingTime(new Date(), user),
+      });
+    }
+  }
+
+  private formatThreadLink(storedPR?: StoredPR): string | null {
+    if (!storedPR?.rootMessageId) {
+      return null;
+    }
+
+    const chatId = storedPR.chatId ?? this.chatRouting.getDefaultChatId();
+    return `${this.appUrl}/chats/${chatId}?message=${storedPR.rootMessageId}`;
+  }
+
+  private formatAge(since: string): string {
+    const hours = Math.floor(
+      (Date.now() - new Date(since).getTime()) / (60 * 60 * 1000),
+    );
+    return hours < 24
+      ? `${hours} ч. назад`
+      : `${Math.floor(hours / 24)} дн. назад`;
+  }
+
+  private async queueMessage(options: EnqueueMessageOptions): Promise<void> {
+    const queued = await this.messageQueue.enqueue(options);
+    if (!queued) {
+      return;
+    }
 
     this.logger.debug('Added message to queue:', {
-      queueLength: this.messageQueue.length,
-      prId,
-      hasParentId: !!parentMessageId,
+      queueLength: await this.messageQueue.size(),
+      prKey: options.prKey && formatPullRequestKey(options.prKey),
+      hasParentId: !!options.parentMessageId,
+      isEdit: !!options.editMessageId,
+      recipientUserId: options.recipientUserId,
+      chatId: options.chatId,
+      notBefore: options.notBefore,
     });
   }
 
@@ -239,19 +806,23 @@ export class PachkaService {
           : participantInfo?.state === 'changes_requested'
             ? '🔴'
             : '⏳';
-        return `${status} ${reviewer.display_name}`;
+        return `${status} ${this.userDirectory.formatMention(reviewer)}`;
       })
       .join('\n');
 
     return {
       message: [
-        `🟢 *Новый Pull Request*`,
+        PULL_REQUEST_HEADERS[pr.state] ?? PULL_REQUEST_HEADERS.OPEN,
         '',
         `*Название:* ${pr.title}`,
-        `*Автор:* ${pr.author.display_name}`,
-        `*Статус:* ${pr.state === 'OPEN' ? 'Открыт' : pr.state}`,
+        `*Автор:* ${this.userDirectory.getDisplayName(pr.author)}`,
+        `*Статус:* ${PULL_REQUEST_STATES[pr.state] ?? pr.state}`,
         `*Репозиторий:* ${pr.source.repository.full_name}`,
         `*Ветки:* ${pr.source.branch.name} → ${pr.destination.branch.name}`,
+        this.formatBuildLine(pr),
+        pr.tasks?.open || pr.tasks?.resolved
+          ? `*Задачи:* открыто ${pr.tasks.open}, решено ${pr.tasks.resolved}`
+          : '',
         '',
         '*Ревьюеры:*',
         reviewersText || 'Нет назначенных ревьюеров',
@@ -264,66 +835,506 @@ export class PachkaService {
     };
   }
 
-  private formatPullRequestUpdateMessage(pr: PullRequest): string | null {
-    const pendingReviewers = pr.reviewers
-      .filter((reviewer) => {
-        const participantInfo = pr.participants.find(
-          (p) => p.user.account_id === reviewer.account_id,
-        );
-        return (
-          !participantInfo?.approved &&
-          participantInfo?.state !== 'changes_requested'
-        );
-      })
-      .map((reviewer) => {
-        const displayName = reviewer.display_name;
-        const mention = this.reviewerMappings[displayName];
-        return mention ? `${displayName} - ${mention}` : displayName;
+  private formatBuildLine(pr: PullRequest): string {
+    const build = pr.build;
+    if (!build?.status) {
+      return '';
+    }
+
+    const status = BUILD_STATUSES[build.status];
+    return build.url
+      ? `*Сборка:* [${status}](${build.url})`
+      : `*Сборка:* ${status}`;
+  }
+
+  // The readiness to announce when the events completed the review: the last
+  // required approval came in, or with the review done the last task was
+  // resolved or the build turned green.
+  private getMergeReadinessChange(
+    pr: PullRequest,
+    events: PullRequestEvent[],
+  ): MergeReadiness | null {
+    if (pr.state !== 'OPEN') {
+      return null;
+    }
+
+    const policy = this.mergePolicy.getPolicy(pr);
+    const readiness = getMergeReadiness(pr, policy);
+    if (
+      readiness.blockers.some(
+        (blocker) =>
+          blocker.type === 'approvals' || blocker.type === 'changes_requested',
+      )
+    ) {
+      return null;
+    }
+
+    const completed = events.some(
+      (event) =>
+        (event.type === 'approved' &&
+          (policy.requiredApprovals === undefined ||
+            readiness.approvals === readiness.requiredApprovals)) ||
+        (event.type === 'tasks_resolved' && event.openTasks === 0) ||
+        event.type === 'build_passed',
+    );
+    return completed ? readiness : null;
+  }
+
+  private formatMergeReadinessMessage(
+    pr: PullRequest,
+    readiness: MergeReadiness,
+  ): string {
+    const displayName = this.userDirectory.formatMention(pr.author);
+    const approvedBy = pr.participants
+      .filter((participant) => participant.approved)
+      .map(
+        (participant) =>
+          `✅ ${this.userDirectory.getDisplayName(participant.user)}`,
+      );
+
+    return [
+      ...(readiness.ready
+        ? [
+            '🎉 *PR готов к мерджу!*',
+            `${displayName}, все условия мерджа выполнены:`,
+          ]
+        : [
+            '👍 *Ревью пройдено*',
+            `${displayName}, перед мерджем осталось:`,
+            ...this.formatMergeBlockers(readiness.blockers),
+          ]),
+      `PR: ${pr.title}`,
+      '',
+      '*Одобрено:*',
+      ...approvedBy,
+      ...(readiness.ready && pr.tasks?.resolved
+        ? ['', '☑️ Все задачи решены']
+        : []),
+      '',
+      `🔗 ${pr.links.html.href}`,
+    ].join('\n');
+  }
+
+  private formatMergeBlockers(blockers: MergeBlocker[]): string[] {
+    return blockers.map((blocker) => {
+      switch (blocker.type) {
+        case 'approvals':
+          return `• Одобрений: ${blocker.approvals} из ${blocker.required}`;
+        case 'changes_requested':
+          return `• Изменения запросили: ${blocker.users
+            .map((user) => this.userDirectory.getDisplayName(user))
+            .join(', ')}`;
+        case 'open_tasks':
+          return `• Открытых задач: ${blocker.count}`;
+        case 'build':
+          return `• Сборка: ${BUILD_STATUSES[blocker.status]}`;
+      }
+    });
+  }
+
+  private formatPullRequestEventMessage(
+    pr: PullRequest,
+    event: ThreadEvent,
+  ): string {
+    return [
+      ...this.formatEventSummary(event),
+      `PR: ${pr.title}`,
+      '',
+      `🔗 ${pr.links.html.href}`,
+    ].join('\n');
+  }
+
+  private formatCatchUpMessage(pr: PullRequest, events: ThreadEvent[]): string {
+    return [
+      '🌙 *Изменения в нерабочее время*',
+      '',
+      ...events.flatMap((event) => this.formatEventSummary(event)),
+      '',
+      `PR: ${pr.title}`,
+      '',
+      `🔗 ${pr.links.html.href}`,
+    ].join('\n');
+  }
+
+  private formatEventSummary(event: ThreadEvent): string[] {
+    const actor =
+      'user' in event && event.user
+        ? this.userDirectory.getDisplayName(event.user)
+        : 'Кто-то';
+    let summary: string[];
+
+    switch (event.type) {
+      case 'ready_for_review':
+        summary = [`🚀 *${actor}* перевёл(а) PR из черновика в ревью`];
+        break;
+      case 'approved':
+        summary = [`✅ *${actor}* одобрил(а) PR`];
+        break;
+      case 'unapproved':
+        summary = [`↩️ *${actor}* отозвал(а) одобрение`];
+        break;
+      case 'changes_requested':
+        summary = [`🔴 *${actor}* запросил(а) изменения`];
+        break;
+      case 'commits_pushed':
+        summary = [
+          `📦 *${actor}* добавил(а) новые коммиты`,
+          `Последний коммит: \`${event.hash.substring(0, 12)}\``,
+        ];
+        break;
+      case 'build_failed':
+        summary = [
+          `❌ *Сборка упала* на коммите \`${event.hash.substring(0, 12)}\``,
+          ...(event.url ? [`Подробнее: ${event.url}`] : []),
+        ];
+        break;
+      case 'build_passed':
+        summary = [
+          `✅ *Сборка снова зелёная* на коммите \`${event.hash.substring(0, 12)}\``,
+        ];
+        break;
+      case 'comment_added':
+        summary = this.formatCommentSummary(actor, event.comment);
+        break;
+      case 'tasks_resolved':
+        summary = [
+          '☑️ *Решены задачи:*',
+          ...event.tasks.map(
+            (task) =>
+              `• ${task.content.raw}${task.resolved_by ? ` (${this.userDirectory.getDisplayName(task.resolved_by)})` : ''}`,
+          ),
+          event.openTasks > 0
+            ? `Осталось открытых задач: ${event.openTasks}`
+            : 'Все задачи решены',
+        ];
+        break;
+      case 'reviewers_added':
+        summary = [
+          `👀 *${actor}* добавил(а) ревьюеров:`,
+          ...event.reviewers.map(
+            (reviewer) => `• ${this.userDirectory.formatMention(reviewer)}`,
+          ),
+        ];
+        break;
+      case 'reviewers_assigned':
+        summary = [
+          '🤖 *Ревьюеры назначены автоматически*',
+          ...event.assignments.map(
+            ({ reviewer, ownedPattern, load }) =>
+              `• ${this.userDirectory.formatMention(reviewer)} — ${
+                ownedPattern
+                  ? `владелец \`${ownedPattern}\``
+                  : 'из пула ревьюеров'
+              }, в очереди PR: ${load}`,
+          ),
+        ];
+        break;
+      case 'reviewers_removed':
+        summary = [
+          `➖ *${actor}* убрал(а) ревьюеров:`,
+          ...event.reviewers.map(
+            (reviewer) => `• ${this.userDirectory.getDisplayName(reviewer)}`,
+          ),
+        ];
+        break;
+      case 'title_changed':
+        summary = [
+          `✏️ *${actor}* изменил(а) название:`,
+          `«${event.previous}» → «${event.current}»`,
+        ];
+        break;
+      case 'target_branch_changed':
+        summary = [
+          `🔀 *${actor}* сменил(а) целевую ветку:`,
+          `${event.previous} → ${event.current}`,
+        ];
+        break;
+      case 'closed':
+        summary = [
+          event.state === 'MERGED'
+            ? `🟣 *${actor}* влил(а) PR`
+            : event.state === 'DECLINED'
+              ? `⛔ *${actor}* отклонил(а) PR`
+              : `♻️ PR заменён другим (${actor})`,
+        ];
+        break;
+    }
+
+    return summary;
+  }
+
+  private formatCommentSummary(
+    actor: string,
+    comment: PullRequestComment,
+  ): string[] {
+    const line = comment.inline?.to ?? comment.inline?.from;
+    const context = comment.inline
+      ? `\`${comment.inline.path}${line ? `:${line}` : ''}\``
+      : null;
+    const text =
+      comment.content.raw.length > MAX_COMMENT_LENGTH
+        ? `${comment.content.raw.substring(0, MAX_COMMENT_LENGTH)}…`
+        : comment.content.raw;
+
+    return [
+      comment.parent
+        ? `💬 *${actor}* ответил(а) в обсуждении${context ? ` ${context}` : ''}`
+        : context
+          ? `💬 *${actor}* прокомментировал(а) ${context}`
+          : `💬 *${actor}* оставил(а) комментарий`,
+      text,
+      `[Открыть комментарий](${comment.links.html.href})`,
+    ];
+  }
+
+  private getEventIdempotencyKey(
+    pr: PullRequest,
+    event: PullRequestEvent,
+  ): string {
+    const prKey = formatPullRequestKey(getPullRequestKey(pr));
+    const user = 'user' in event ? event.user?.account_id : undefined;
+    let version = pr.updated_on;
+    if (
+      event.type === 'commits_pushed' ||
+      event.type === 'build_failed' ||
+      event.type === 'build_passed'
+    ) {
+      version = event.hash;
+    } else if (event.type === 'comment_added') {
+      version = event.comment.id.toString();
+    } else if (event.type === 'tasks_resolved') {
+      version = event.tasks.map((task) => task.id).join(',');
+    } else if (event.type === 'reviewers_assigned') {
+      version = undefined; // reviewers are assigned once per PR
+    }
+    return [prKey, event.type, user, version].filter(Boolean).join(':');
+  }
+
+  // One digest per chat, covering the PRs that are routed to that chat.
+  async sendDailyDigest(prs: PullRequest[]): Promise<void> {
+    const prsByChat = new Map<string, PullRequest[]>();
+    for (const pr of prs) {
+      const chatId = this.chatRouting.resolvePullRequestChat(
+        getPullRequestKey(pr),
+        pr.destination.branch.name,
+      );
+      prsByChat.set(chatId, [...(prsByChat.get(chatId) ?? []), pr]);
+    }
+
+    const date = new Date().toISOString().substring(0, 10);
+    for (const [chatId, chatPRs] of prsByChat) {
+      await this.queueMessage({
+        message: this.formatDailyDigest(
+          chatPRs,
+          '📋 *Ежедневный дайджест ревью*',
+        ),
+        chatId,
+        idempotencyKey: `digest:${chatId}:${date}`,
       });
+    }
+  }
 
-    const allReviewersApproved =
-      pr.reviewers.length > 0 &&
-      pr.reviewers.every((reviewer) => {
-        const participantInfo = pr.participants.find(
-          (p) => p.user.account_id === reviewer.account_id,
+  private formatDailyDigest(prs: PullRequest[], header: string): string {
+    const lines = [header];
+
+    const repositories = [
+      ...new Set(prs.map((pr) => pr.destination.repository.full_name)),
+    ].sort();
+    for (const repository of repositories) {
+      const repositoryPRs = prs.filter(
+        (pr) => pr.destination.repository.full_name === repository,
+      );
+      lines.push('', `*${repository}*`);
+
+      for (const [status, title] of DIGEST_SECTIONS) {
+        const sectionPRs = repositoryPRs.filter(
+          (pr) => this.mergePolicy.getReviewStatus(pr) === status,
         );
-        return participantInfo?.approved === true;
-      });
+        if (sectionPRs.length > 0) {
+          lines.push(
+            title,
+            ...sectionPRs.map(
+              (pr) =>
+                `• [${pr.title}](${pr.links.html.href}) — открыт ${this.formatAge(pr.created_on)}, обновлён ${this.formatAge(pr.updated_on)}`,
+            ),
+          );
+        }
+      }
+    }
 
-    if (pr.state === 'OPEN' && allReviewersApproved) {
-      const authorName = this.reviewerMappings[pr.author.display_name];
-      const displayName = authorName
-        ? `${pr.author.display_name} - ${authorName}`
-        : pr.author.display_name;
-      const reviewersText = pr.reviewers
-        .map((reviewer) => `✅ ${reviewer.display_name}`)
-        .join('\n');
-
-      return [
-        '🎉 *Все ревьюеры одобрили PR!*',
-        `${displayName}, ваш PR готов к мерджу:`,
-        `PR: ${pr.title}`,
-        '',
-        '*Одобрено:*',
-        reviewersText,
+    const reviewQueues = this.getReviewQueues(prs);
+    if (reviewQueues.length > 0) {
+      lines.push('', '*Очереди ревьюеров:*');
+      for (const { reviewer, prs: queue } of reviewQueues) {
+        lines.push(
+          `${this.userDirectory.formatMention(reviewer)}:`,
+          ...queue.map((pr, index) => this.formatQueueLine(pr, index)),
+        );
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private formatQueueLine(pr: PullRequest, index: number): string {
+    return `${index + 1}. [${pr.title}](${pr.links.html.href}) — открыт ${this.formatAge(pr.created_on)}`;
+  }
+
+  async sendReviewReport(chatId: string, report: ReviewReport): Promise<void> {
+    await this.queueMessage({
+      message: this.formatReviewReport(report),
+      chatId,
+      idempotencyKey: `review-report:${chatId}:${this.workSchedule.getToday(new Date(report.to))}`,
+    });
+  }
+
+  private formatReviewReport(report: ReviewReport): string {
+    // The period is [from, to), so the last day is the one before `to`.
+    const [from, to] = [
+      new Date(report.from),
+      new Date(new Date(report.to).getTime() - 1),
+    ].map((date) =>
+      this.workSchedule
+        .getToday(date)
+        .split('-')
+        .reverse()
+        .slice(0, 2)
+        .join('.'),
+    );
+    const lines = [
+      `📊 *Ревью за неделю* (${from}–${to})`,
+      `Открыто PR: ${report.opened}, смерджено: ${report.merged}`,
+      `Время до первого ревью (медиана): ${this.formatWorkingHours(report.medianTimeToFirstReview)}`,
+      `Время до мерджа (медиана): ${this.formatWorkingHours(report.medianTimeToMerge)}`,
+      `Раундов ревью в среднем: ${report.averageReviewRounds ?? '—'}`,
+    ];
+
+    if (report.reviewers.length > 0) {
+      lines.push(
         '',
-        `🔗 ${pr.links.html.href}`,
-      ].join('\n');
+        '*Ревьюеры:*',
+        ...report.reviewers.map(
+          ({ reviewer, responses, medianResponseTime, pending }) =>
+            [
+              `• ${this.userDirectory.getDisplayName(reviewer)} — ответов: ${responses}`,
+              ...(responses > 0
+                ? [
+                    `медиана ответа ${this.formatWorkingHours(medianResponseTime)}`,
+                  ]
+                : []),
+              ...(pending > 0 ? [`ждут ответа: ${pending}`] : []),
+            ].join(', '),
+        ),
+      );
     }
 
-    if (pendingReviewers.length > 0) {
-      return [
-        '🔄 Напоминание о ревью',
+    return lines.join('\n');
+  }
+
+  private formatWorkingHours(hours: number | undefined): string {
+    return hours === undefined ? '—' : `${hours} рабочих ч.`;
+  }
+
+  async sendReply(target: ReplyTarget, message: string): Promise<void> {
+    await this.queueMessage({ message, ...target });
+  }
+
+  async sendPullRequestOverview(
+    target: ReplyTarget,
+    prs: PullRequest[],
+  ): Promise<void> {
+    await this.sendReply(
+      target,
+      prs.length > 0
+        ? this.formatDailyDigest(prs, '📋 *Открытые PR*')
+        : '🎉 Открытых PR нет',
+    );
+  }
+
+  async sendReviewQueue(
+    target: ReplyTarget,
+    reviewer: BitbucketUser,
+    prs: PullRequest[],
+  ): Promise<void> {
+    const queue = this.getReviewQueues(prs).find(
+      (item) => item.reviewer.account_id === reviewer.account_id,
+    );
+
+    await this.sendReply(
+      target,
+      queue
+        ? [
+            `📝 *Очередь ревью* ${this.userDirectory.formatMention(reviewer)}:`,
+            ...queue.prs.map((pr, index) => this.formatQueueLine(pr, index)),
+          ].join('\n')
+        : `✨ ${this.userDirectory.getDisplayName(reviewer)}: нет PR, ожидающих ревью`,
+    );
+  }
+
+  async sendMergeBlockers(
+    target: ReplyTarget,
+    readiness: MergeReadiness,
+  ): Promise<void> {
+    await this.sendReply(
+      target,
+      [
+        '⏳ *PR ещё не готов к мерджу*',
+        ...this.formatMergeBlockers(readiness.blockers),
+      ].join('\n'),
+    );
+  }
+
+  // A reminder for one user, requested by someone in the PR thread.
+  async sendPersonalReminder(
+    pr: PullRequest,
+    user: BitbucketUser,
+    threadId: string,
+  ): Promise<void> {
+    const prKey = getPullRequestKey(pr);
+
+    await this.queueMessage({
+      message: [
+        '🔔 Напоминание о ревью',
+        `${this.userDirectory.formatMention(user)}, PR ждёт вашего внимания`,
         `PR: ${pr.title}`,
         '',
-        'Ожидается ревью от:',
-        ...pendingReviewers.map((name) => `• ${name}`),
-        '',
         `🔗 ${pr.links.html.href}`,
-      ].join('\n');
+      ].join('\n'),
+      parentMessageId: threadId,
+      prKey,
+    });
+    await this.queueDirectMessages(
+      pr,
+      [user],
+      '🔔 Вас просят посмотреть PR',
+      `${formatPullRequestKey(prKey)}:remind:${Date.now()}`,
+    );
+  }
+
+  // Each reviewer's pending PRs, longest-waiting first; reviewers with the
+  // longest queues come first.
+  private getReviewQueues(
+    prs: PullRequest[],
+  ): Array<{ reviewer: BitbucketUser; prs: PullRequest[] }> {
+    const queues = new Map<
+      string,
+      { reviewer: BitbucketUser; prs: PullRequest[] }
+    >();
+
+    for (const pr of prs) {
+      for (const reviewer of this.mergePolicy.getPendingReviewers(pr)) {
+        const queue = queues.get(reviewer.account_id) ?? { reviewer, prs: [] };
+        queue.prs.push(pr);
+        queues.set(reviewer.account_id, queue);
+      }
     }
 
-    return null;
+    return [...queues.values()]
+      .map((queue) => ({
+        ...queue,
+        prs: queue.prs.sort((a, b) => a.created_on.localeCompare(b.created_on)),
+      }))
+      .sort((a, b) => b.prs.length - a.prs.length);
   }
 
   async sendStartupMessage(): Promise<boolean> {
@@ -337,7 +1348,10 @@ export class PachkaService {
       '_Проверка каждые 10 минут_',
     ].join('\n');
 
-    this.queueMessage(message);
+    await this.queueMessage({
+      message,
+      chatId: this.chatRouting.getOpsChatId(),
+    });
     return true;
   }
 
@@ -351,7 +1365,10 @@ export class PachkaService {
       '_Проверьте логи приложения для получения дополнительной информации._',
     ].join('\n');
 
-    this.queueMessage(message);
+    await this.queueMessage({
+      message,
+      chatId: this.chatRouting.getOpsChatId(),
+    });
     return true;
   }
 
@@ -364,11 +1381,14 @@ export class PachkaService {
     }
   }
 
-  async removeFromStore(prId: string, repository: string): Promise<void> {
+  async removeFromStore(prKey: PullRequestKey): Promise<void> {
     try {
-      await this.messageStore.removePR(+prId, repository);
+      await this.messageStore.removePR(prKey);
     } catch (error) {
-      this.logger.error(`Failed to remove PR #${prId} from store:`, error);
+      this.logger.error(
+        `Failed to remove PR ${formatPullRequestKey(prKey)} from store:`,
+        error,
+      );
     }
   }
 }
@@ -0,0 +1,192 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { randomUUID } from 'crypto';
+import { KeyValueStorage } from '../../storage/interfaces/key-value-storage.interface';
+import { STORAGE } from '../../storage/storage.constants';
+import { PullRequestKey } from '../store/pull-request-key';
+
+export interface QueuedMessage {
+  id: string;
+  sequence: number;
+  message: string;
+  parentMessageId?: string;
+  prKey?: PullRequestKey;
+  // Chat for root messages; threads and edits are addressed by message id.
+  chatId?: string;
+  // Set once the root message is posted, so a retry after a crash only has
+  // to create the thread instead of posting a duplicate root message.
+  rootMessageId?: string;
+  // When set, the message replaces the content of this existing message.
+  editMessageId?: string;
+  // When set, the message is a personal DM to this Pachka user.
+  recipientUserId?: number;
+  // When set, the message goes to the thread of `prKey`, looked up at
+  // delivery: a new PR only gets its thread once the root message is posted.
+  inPullRequestThread?: boolean;
+  retries: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+  createdAt: string;
+}
+
+export interface DeadLetter extends QueuedMessage {
+  failedAt: string;
+  reason: string;
+}
+
+export interface EnqueueMessageOptions {
+  message: string;
+  parentMessageId?: string;
+  prKey?: PullRequestKey;
+  chatId?: string;
+  editMessageId?: string;
+  recipientUserId?: number;
+  inPullRequestThread?: boolean;
+  idempotencyKey?: string;
+  // Delivery is held back until this time, e.g. the recipient's working hours.
+  notBefore?: Date;
+}
+
+const QUEUE_COLLECTION = 'message-queue';
+const DELIVERED_COLLECTION = 'message-queue-delivered';
+const DEAD_LETTER_COLLECTION = 'message-queue-dead-letter';
+const DELIVERED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class MessageQueueService implements OnModuleInit {
+  private readonly logger: Logger = new Logger(MessageQueueService.name);
+
+  private nextSequence = 0;
+
+  constructor(@Inject(STORAGE) private readonly storage: KeyValueStorage) {}
+
+  async onModuleInit(): Promise<void> {
+    const pending = await this.getPending();
+    this.nextSequence =
+      pending.reduce((max, item) => Math.max(max, item.sequence), -1) + 1;
+
+    await this.pruneDelivered();
+
+    if (pending.length > 0) {
+      this.logger.log('Resuming pending messages from previous run:', {
+        pending: pending.length,
+      });
+    }
+
+    const deadLetters = await this.getDeadLetters();
+    if (deadLetters.length > 0) {
+      this.logger.warn('Dead-lettered messages waiting for inspection:', {
+        count: deadLetters.length,
+        lastFailedAt: deadLetters[deadLetters.length - 1].failedAt,
+        lastReason: deadLetters[deadLetters.length - 1].reason,
+      });
+    }
+  }
+
+  async enqueue(options: EnqueueMessageOptions): Promise<boolean> {
+    const id = options.idempotencyKey || randomUUID();
+
+    if (options.idempotencyKey && (await this.isKnown(id))) {
+      this.logger.debug('Skipping duplicate message:', { idempotencyKey: id });
+      return false;
+    }
+
+    const item: QueuedMessage = {
+      id,
+      sequence: this.nextSequence++,
+      message: options.message,
+      parentMessageId: options.parentMessageId,
+      prKey: options.prKey,
+      chatId: options.chatId,
+      editMessageId: options.editMessageId,
+      recipientUserId: options.recipientUserId,
+      inPullRequestThread: options.inPullRequestThread,
+      retries: 0,
+      nextAttemptAt: options.notBefore?.toISOString(),
+      createdAt: new Date().toISOString(),
+    };
+    await this.storage.set(QUEUE_COLLECTION, id, item);
+
+    return true;
+  }
+
+  async takeReady(limit: number): Promise<QueuedMessage[]> {
+    const now = Date.now();
+    return (await this.getPending())
+      .filter(
+        (item) =>
+          !item.nextAttemptAt || new Date(item.nextAttemptAt).getTime() <= now,
+      )
+      .slice(0, limit);
+  }
+
+  async update(item: QueuedMessage): Promise<void> {
+    await this.storage.set(QUEUE_COLLECTION, item.id, item);
+  }
+
+  async complete(item: QueuedMessage): Promise<void> {
+    await this.storage.set(DELIVERED_COLLECTION, item.id, {
+      deliveredAt: new Date().toISOString(),
+    });
+    await this.storage.delete(QUEUE_COLLECTION, item.id);
+  }
+
+  async deadLetter(item: QueuedMessage, reason: string): Promise<void> {
+    await this.storage.set<DeadLetter>(DEAD_LETTER_COLLECTION, item.id, {
+      ...item,
+      failedAt: new Date().toISOString(),
+      reason,
+    });
+    await this.storage.delete(QUEUE_COLLECTION, item.id);
+
+    this.logger.warn('Message moved to dead-letter list:', {
+      id: item.id,
+      retries: item.retries,
+      reason,
+    });
+  }
+
+  async getDeadLetters(): Promise<DeadLetter[]> {
+    const items = await this.storage.getAll<DeadLetter>(DEAD_LETTER_COLLECTION);
+    return Object.values(items).sort((a, b) =>
+      a.failedAt.localeCompare(b.failedAt),
+    );
+  }
+
+  // Whether the message is queued and not yet delivered or dead-lettered.
+  async isPending(id: string): Promise<boolean> {
+    return !!(await this.storage.get(QUEUE_COLLECTION, id));
+  }
+
+  async size(): Promise<number> {
+    const items = await this.storage.getAll(QUEUE_COLLECTION);
+    return Object.keys(items).length;
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async pruneDelivered(): Promise<void> {
+    const delivered = await this.storage.getAll<{ deliveredAt: string }>(
+      DELIVERED_COLLECTION,
+    );
+    const threshold = Date.now() - DELIVERED_RETENTION_MS;
+
+    for (const [key, entry] of Object.entries(delivered)) {
+      if (new Date(entry.deliveredAt).getTime() < threshold) {
+        await this.storage.delete(DELIVERED_COLLECTION, key);
+      }
+    }
+  }
+
+  private async isKnown(id: string): Promise<boolean> {
+    const [pending, delivered] = await Promise.all([
+      this.storage.get(QUEUE_COLLECTION, id),
+      this.storage.get(DELIVERED_COLLECTION, id),
+    ]);
+    return !!pending || !!delivered;
+  }
+
+  private async getPending(): Promise<QueuedMessage[]> {
+    const items = await this.storage.getAll<QueuedMessage>(QUEUE_COLLECTION);
+    return Object.values(items).sort((a, b) => a.sequence - b.sequence);
+  }
+}
@@ -0,0 +1,57 @@
+import { AxiosError } from 'axios';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+const RETRYABLE_NETWORK_CODES = [
+  'ECONNABORTED',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'ERR_NETWORK',
+];
+
+// The PR thread a message is addressed to has not been created yet. Not
+// counted as a failed attempt while the root message is still queued.
+export class ThreadNotReadyError extends Error {}
+
+export function isRetryableError(error: AxiosError): boolean {
+  const status = error.response?.status;
+  if (status) {
+    return RETRYABLE_STATUSES.includes(status);
+  }
+  return RETRYABLE_NETWORK_CODES.includes(error.code);
+}
+
+// `Retry-After` is either a number of seconds or an HTTP date.
+export function getRetryAfterMs(error: AxiosError): number | null {
+  const header = error.response?.headers?.['retry-after'];
+  if (!header) {
+    return null;
+  }
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter: a random delay between zero and the
+// exponential ceiling spreads retries of many messages over time.
+export function computeBackoffMs(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** Math.max(0, attempt - 1),
+  );
+  return Math.round(Math.random() * ceiling);
+}
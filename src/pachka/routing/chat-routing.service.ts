@@ -0,0 +1,56 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BranchRoute } from '../../bitbucket/interfaces/workspace.config';
+import { matchesGlob } from '../../common/glob';
+import { WorkspaceConfigService } from '../../config/workspace-config.service';
+import { PullRequestKey } from '../store/pull-request-key';
+
+@Injectable()
+export class ChatRoutingService {
+  private readonly defaultChatId: string =
+    this.configService.get('pachka.chatId');
+
+  private readonly opsChatId: string =
+    this.configService.get('pachka.opsChatId') || this.defaultChatId;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly workspaceConfig: WorkspaceConfigService,
+  ) {}
+
+  // Most specific rule wins: repository branch routes, workspace branch
+  // routes, repository chat, workspace chat, then the default chat.
+  resolvePullRequestChat(
+    prKey: PullRequestKey,
+    destinationBranch: string,
+  ): string {
+    const workspace = this.workspaceConfig.findWorkspaceConfig(prKey.workspace);
+    const repository = this.workspaceConfig.findRepositoryConfig(
+      prKey.workspace,
+      prKey.repository,
+    );
+
+    return (
+      this.matchBranchRoute(repository?.branchRoutes, destinationBranch) ??
+      this.matchBranchRoute(workspace?.branchRoutes, destinationBranch) ??
+      repository?.chatId ??
+      workspace?.chatId ??
+      this.defaultChatId
+    );
+  }
+
+  getOpsChatId(): string {
+    return this.opsChatId;
+  }
+
+  getDefaultChatId(): string {
+    return this.defaultChatId;
+  }
+
+  private matchBranchRoute(
+    routes: BranchRoute[] | undefined,
+    branch: string,
+  ): string | undefined {
+    return routes?.find((route) => matchesGlob(branch, route.branch))?.chatId;
+  }
+}
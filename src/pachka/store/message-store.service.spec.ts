@@ -0,0 +1,153 @@
+import { Logger } from '@nestjs/common';
+import { PullRequest } from '../../bitbucket/interfaces/pull-request.interface';
+import { KeyValueStorage } from '../../storage/interfaces/key-value-storage.interface';
+import { MessageStoreService } from './message-store.service';
+import { getPullRequestKey } from './pull-request-key';
+
+class MemoryStorage implements KeyValueStorage {
+  readonly location = 'memory';
+
+  private readonly collections = new Map<string, Map<string, unknown>>();
+
+  async init(): Promise<void> {}
+
+  async get<T>(collection: string, key: string): Promise<T | null> {
+    return (this.getCollection(collection).get(key) as T) ?? null;
+  }
+
+  async getAll<T>(collection: string): Promise<Record<string, T>> {
+    return Object.fromEntries(this.getCollection(collection)) as Record<
+      string,
+      T
+    >;
+  }
+
+  async set<T>(collection: string, key: string, value: T): Promise<void> {
+    this.getCollection(collection).set(key, value);
+  }
+
+  async delete(collection: string, key: string): Promise<void> {
+    this.getCollection(collection).delete(key);
+  }
+
+  async close(): Promise<void> {}
+
+  private getCollection(collection: string): Map<string, unknown> {
+    if (!this.collections.has(collection)) {
+      this.collections.set(collection, new Map());
+    }
+    return this.collections.get(collection);
+  }
+}
+
+function createPullRequest(
+  id: number,
+  source: string,
+  destination: string,
+): PullRequest {
+  const author = { account_id: 'author', display_name: 'Author' };
+  return {
+    id,
+    title: 'Add feature',
+    description: '',
+    created_on: '2026-10-12T08:00:00Z',
+    updated_on: '2026-10-12T08:00:00Z',
+    state: 'OPEN',
+    author,
+    reviewers: [],
+    participants: [],
+    source: {
+      branch: { name: 'feature' },
+      commit: { hash: 'aaa111' },
+      repository: { full_name: source },
+    },
+    destination: {
+      branch: { name: 'main' },
+      repository: { full_name: destination },
+    },
+    links: { html: { href: `https://bitbucket.org/${destination}` } },
+  };
+}
+
+describe('MessageStoreService', () => {
+  let storage: MemoryStorage;
+  let store: MessageStoreService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    store = new MessageStoreService(storage);
+  });
+
+  describe('migration of entries keyed by the bare PR id', () => {
+    it('moves them to composite keys', async () => {
+      await storage.set('message-store', '7', {
+        messageId: 'thread-7',
+        repository: 'ws/repo',
+        updatedAt: '2026-01-01T00:00:00Z',
+      });
+
+      await store.onModuleInit();
+
+      expect(
+        await store.getStoredPR(
+          getPullRequestKey(createPullRequest(7, 'ws/repo', 'ws/repo')),
+        ),
+      ).toEqual({
+        key: 'ws/repo#7',
+        workspace: 'ws',
+        repository: 'repo',
+        prId: 7,
+        messageId: 'thread-7',
+      });
+      expect(await storage.get('message-store', '7')).toBeNull();
+    });
+
+    it('drops entries without a workspace', async () => {
+      await storage.set('message-store', '7', {
+        messageId: 'thread-7',
+        repository: 'repo',
+        updatedAt: '2026-01-01T00:00:00Z',
+      });
+
+      await store.onModuleInit();
+
+      expect(await store.getAllPRs()).toEqual([]);
+    });
+
+    it('loses the thread of a PR from a fork', async () => {
+      await storage.set('message-store', '7', {
+        messageId: 'thread-7',
+        repository: 'someone/repo-fork',
+        updatedAt: '2026-01-01T00:00:00Z',
+      });
+
+      await store.onModuleInit();
+
+      const pr = createPullRequest(7, 'someone/repo-fork', 'ws/repo');
+      expect(await store.getStoredPR(getPullRequestKey(pr))).toBeNull();
+      expect((await store.getAllPRs()).map((stored) => stored.key)).toEqual([
+        'someone/repo-fork#7',
+      ]);
+    });
+  });
+
+  it('leaves entries with composite keys alone', async () => {
+    await store.saveMessageId(
+      { workspace: 'ws', repository: 'repo', prId: 7 },
+      'thread-7',
+      { rootMessageId: 'root-7', chatId: 'chat' },
+    );
+
+    await store.onModuleInit();
+
+    expect(await store.findByMessageId('root-7')).toMatchObject({
+      key: 'ws/repo#7',
+      messageId: 'thread-7',
+      chatId: 'chat',
+    });
+  });
+});
@@ -1,116 +1,200 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { KeyValueStorage } from '../../storage/interfaces/key-value-storage.interface';
+import { STORAGE } from '../../storage/storage.constants';
+import {
+  formatPullRequestKey,
+  parsePullRequestKey,
+  PullRequestKey,
+} from './pull-request-key';
+
+interface StoredMessage {
+  workspace: string;
+  repository: string;
+  prId: number;
+  messageId: string;
+  rootMessageId?: string;
+  chatId?: string;
+  updatedAt: string;
+}
+
+// Format written before composite keys: entries keyed by the bare PR id with
+// the source repository full name (`workspace/repo`) next to the message id.
+interface LegacyStoredMessage {
+  messageId: string;
+  repository: string;
+  updatedAt: string;
+}
 
-interface MessageStore {
-  [prId: number]: {
-    messageId: string;
-    repository: string;
-    updatedAt: string;
-  };
+export interface StoredPR extends PullRequestKey {
+  key: string;
+  // Id of the thread the bot posts PR updates into.
+  messageId: string;
+  // Id of the root channel message the thread hangs off.
+  rootMessageId?: string;
+  // Chat the thread lives in; missing for threads in the default chat
+  // created before per-repository routing.
+  chatId?: string;
 }
 
+const COLLECTION = 'message-store';
+
+// Location used before the storage directory became configurable.
+const LEGACY_STORE_PATH = path.join(
+  __dirname,
+  '..',
+  '..',
+  'message-store.json',
+);
+
 @Injectable()
 export class MessageStoreService implements OnModuleInit {
   private readonly logger: Logger = new Logger(MessageStoreService.name);
 
-  private store: MessageStore = {};
-
-  private readonly storePath: string = path.join(
-    __dirname,
-    '..',
-    '..',
-    'message-store.json',
-  );
+  constructor(@Inject(STORAGE) private readonly storage: KeyValueStorage) {}
 
   async onModuleInit(): Promise<void> {
-    await this.initializeStore();
-    this.logger.debug('Initial store contents:', this.store);
-  }
-
-  private async initializeStore(): Promise<void> {
     try {
-      const dir = path.dirname(this.storePath);
-      await fs.mkdir(dir, { recursive: true });
-
-      try {
-        const data = await fs.readFile(this.storePath, 'utf8');
-        this.store = JSON.parse(data);
-        this.logger.log('Message store loaded successfully:', {
-          entries: Object.keys(this.store).length,
-          path: this.storePath,
-        });
-      } catch (error) {
-        if (error.code === 'ENOENT') {
-          await this.saveStore();
-          this.logger.log('Created new message store');
-        } else {
-          throw error;
-        }
-      }
+      await this.importLegacyStoreFile();
+      await this.migrateStore();
+
+      const entries = await this.storage.getAll(COLLECTION);
+      this.logger.log('Message store loaded successfully:', {
+        entries: Object.keys(entries).length,
+        location: this.storage.location,
+      });
     } catch (error) {
       this.logger.error('Failed to initialize message store:', error);
       throw error;
     }
   }
 
-  private async saveStore(): Promise<void> {
+  private async importLegacyStoreFile(): Promise<void> {
+    const existing = await this.storage.getAll(COLLECTION);
+    if (Object.keys(existing).length > 0) {
+      return;
+    }
+
+    let data: Record<string, unknown>;
     try {
-      const content = JSON.stringify(this.store, null, 2);
-      this.logger.debug('Writing store to file:', {
-        path: this.storePath,
-        entries: Object.keys(this.store).length,
-        content: content.substring(0, 100) + '...',
-      });
+      data = JSON.parse(await fs.readFile(LEGACY_STORE_PATH, 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
 
-      await fs.writeFile(this.storePath, content, 'utf8');
+    for (const [key, entry] of Object.entries(data)) {
+      await this.storage.set(COLLECTION, key, entry);
+    }
 
-      const savedContent = await fs.readFile(this.storePath, 'utf8');
-      const parsedContent = JSON.parse(savedContent);
+    this.logger.log('Imported message store from legacy location:', {
+      path: LEGACY_STORE_PATH,
+      entries: Object.keys(data).length,
+    });
+  }
 
-      this.logger.debug('Store file saved and verified:', {
-        entriesInFile: Object.keys(parsedContent).length,
-        entriesInMemory: Object.keys(this.store).length,
-      });
-    } catch (error) {
-      this.logger.error('Failed to save store:', error);
-      throw error;
+  // Legacy entries only name the source repository, so they are keyed by it.
+  // That matches the destination repository used for lookups except for PRs
+  // from forks: those are not found and get a new thread.
+  private async migrateStore(): Promise<void> {
+    const data = await this.storage.getAll<StoredMessage | LegacyStoredMessage>(
+      COLLECTION,
+    );
+    const legacyKeys = Object.keys(data).filter((key) => /^\d+$/.test(key));
+    if (legacyKeys.length === 0) {
+      return;
+    }
+
+    let migrated = 0;
+    for (const key of legacyKeys) {
+      const entry = data[key];
+      const [workspace, repository] = entry.repository.split('/');
+
+      if (workspace && repository) {
+        const prKey: PullRequestKey = { workspace, repository, prId: +key };
+        await this.storage.set<StoredMessage>(
+          COLLECTION,
+          formatPullRequestKey(prKey),
+          {
+            ...prKey,
+            messageId: entry.messageId,
+            updatedAt: entry.updatedAt,
+          },
+        );
+        migrated++;
+      } else {
+        this.logger.warn('Dropping legacy store entry without workspace:', {
+          prId: key,
+          repository: entry.repository,
+        });
+      }
+
+      await this.storage.delete(COLLECTION, key);
     }
+
+    this.logger.log('Migrated message store to composite keys:', {
+      migrated,
+      legacy: legacyKeys.length,
+    });
   }
 
-  async getMessageId(prId: number): Promise<string | null> {
-    const stored = this.store[prId]?.messageId;
+  async getMessageId(key: PullRequestKey): Promise<string | null> {
+    const storeKey = formatPullRequestKey(key);
+    const stored = await this.storage.get<StoredMessage>(COLLECTION, storeKey);
     this.logger.debug('Retrieved message ID:', {
-      prId,
-      storedId: stored || 'none',
+      key: storeKey,
+      storedId: stored?.messageId || 'none',
     });
-    return stored || null;
+    return stored?.messageId || null;
+  }
+
+  async getStoredPR(key: PullRequestKey): Promise<StoredPR | null> {
+    const storeKey = formatPullRequestKey(key);
+    const stored = await this.storage.get<StoredMessage>(COLLECTION, storeKey);
+    return stored ? this.toStoredPR(storeKey, stored) : null;
+  }
+
+  // Finds the PR whose thread or root message has the given id, e.g. for a
+  // command posted in a PR thread.
+  async findByMessageId(messageId: string): Promise<StoredPR | null> {
+    const stored = await this.getAllPRs();
+    return (
+      stored.find(
+        (pr) => pr.messageId === messageId || pr.rootMessageId === messageId,
+      ) ?? null
+    );
   }
 
   async saveMessageId(
-    prId: number,
+    key: PullRequestKey,
     messageId: string,
-    repository: string,
+    details: { rootMessageId?: string; chatId?: string } = {},
   ): Promise<void> {
+    const storeKey = formatPullRequestKey(key);
     this.logger.debug('Saving message ID:', {
-      prId,
+      key: storeKey,
       messageId,
-      repository,
+      ...details,
     });
 
-    if (!messageId || !prId || !repository) {
+    if (!messageId || !parsePullRequestKey(storeKey)) {
       throw new Error('Invalid message data for storage');
     }
 
-    this.store[prId] = {
+    await this.storage.set<StoredMessage>(COLLECTION, storeKey, {
+      workspace: key.workspace,
+      repository: key.repository,
+      prId: key.prId,
       messageId,
-      repository,
+      rootMessageId: details.rootMessageId,
+      chatId: details.chatId,
       updatedAt: new Date().toISOString(),
-    };
-
-    await this.saveStore();
+    });
 
-    const storedId = await this.getMessageId(prId);
+    const storedId = await this.getMessageId(key);
     if (storedId !== messageId) {
       this.logger.error('Message ID verification failed:', {
         stored: storedId,
@@ -120,59 +204,52 @@ export class MessageStoreService implements OnModuleInit {
     }
 
     this.logger.debug('Message ID saved and verified:', {
-      prId,
+      key: storeKey,
       messageId,
-      repository,
     });
   }
 
-  async removePR(prId: number, repository: string): Promise<void> {
-    this.logger.debug('Attempting to remove PR:', {
-      prId,
-      repository,
-    });
-
-    const storedPR = this.store[prId];
-    if (!storedPR) {
-      this.logger.debug('PR not found in store:', { prId });
-      return;
-    }
+  async removePR(key: PullRequestKey): Promise<void> {
+    const storeKey = formatPullRequestKey(key);
+    this.logger.debug('Attempting to remove PR:', { key: storeKey });
 
-    if (storedPR.repository !== repository) {
-      this.logger.warn('Repository mismatch during PR removal:', {
-        prId,
-        storedRepository: storedPR.repository,
-        requestedRepository: repository,
-      });
+    if (!(await this.storage.get(COLLECTION, storeKey))) {
+      this.logger.debug('PR not found in store:', { key: storeKey });
       return;
     }
 
-    delete this.store[prId];
-
-    await this.saveStore();
+    await this.storage.delete(COLLECTION, storeKey);
 
-    if (this.store[prId]) {
-      this.logger.error('PR removal verification failed:', { prId });
+    if (await this.storage.get(COLLECTION, storeKey)) {
+      this.logger.error('PR removal verification failed:', { key: storeKey });
       throw new Error('PR removal verification failed');
     }
 
     this.logger.debug('PR successfully removed from store:', {
-      prId,
-      repository,
+      key: storeKey,
     });
   }
 
-  async getAllPRs(): Promise<
-    Array<{ prId: string; repository: string; messageId: string }>
-  > {
-    return Object.entries(this.store).map(([prId, data]) => ({
-      prId,
-      repository: data.repository,
-      messageId: data.messageId,
-    }));
+  async getAllPRs(): Promise<StoredPR[]> {
+    const data = await this.storage.getAll<StoredMessage>(COLLECTION);
+    return Object.entries(data).map(([key, entry]) =>
+      this.toStoredPR(key, entry),
+    );
+  }
+
+  private toStoredPR(key: string, entry: StoredMessage): StoredPR {
+    return {
+      key,
+      workspace: entry.workspace,
+      repository: entry.repository,
+      prId: entry.prId,
+      messageId: entry.messageId,
+      rootMessageId: entry.rootMessageId,
+      chatId: entry.chatId,
+    };
   }
 
   getStorePath(): string {
-    return this.storePath;
+    return this.storage.location;
   }
 }
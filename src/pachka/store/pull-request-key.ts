@@ -0,0 +1,34 @@
+import { PullRequest } from '../../bitbucket/interfaces/pull-request.interface';
+
+export interface PullRequestKey {
+  workspace: string;
+  repository: string;
+  prId: number;
+}
+
+const KEY_PATTERN = /^([^/]+)\/([^#]+)#(\d+)$/;
+
+export function formatPullRequestKey(key: PullRequestKey): string {
+  return `${key.workspace}/${key.repository}#${key.prId}`;
+}
+
+export function parsePullRequestKey(value: string): PullRequestKey | null {
+  const match = KEY_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    workspace: match[1],
+    repository: match[2],
+    prId: parseInt(match[3], 10),
+  };
+}
+
+// PRs are identified by their destination repository: the source repository
+// may be a fork living in another workspace.
+export function getPullRequestKey(pr: PullRequest): PullRequestKey {
+  const [workspace, repository] =
+    pr.destination.repository.full_name.split('/');
+  return { workspace, repository, prId: pr.id };
+}
@@ -0,0 +1,17 @@
+export interface KeyValueStorage {
+  readonly location: string;
+
+  init(): Promise<void>;
+
+  get<T>(collection: string, key: string): Promise<T | null>;
+
+  getAll<T>(collection: string): Promise<Record<string, T>>;
+
+  set<T>(collection: string, key: string, value: T): Promise<void>;
+
+  delete(collection: string, key: string): Promise<void>;
+
+  close(): Promise<void>;
+}
+
+export type StorageDriver = 'json' | 'sqlite';
@@ -0,0 +1,114 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { KeyValueStorage } from './interfaces/key-value-storage.interface';
+
+type Collection = Record<string, unknown>;
+
+// Collections are read once and then served from memory, so changes made by
+// another process are never seen: only one bot instance may use a data
+// directory.
+export class JsonFileStorage implements KeyValueStorage {
+  private readonly logger: Logger = new Logger(JsonFileStorage.name);
+
+  private readonly collections = new Map<string, Collection>();
+
+  private readonly writes = new Map<string, Promise<void>>();
+
+  constructor(private readonly dataDir: string) {}
+
+  get location(): string {
+    return this.dataDir;
+  }
+
+  async init(): Promise<void> {
+    await fs.mkdir(this.dataDir, { recursive: true });
+    this.logger.log('JSON file storage initialized:', { dir: this.dataDir });
+  }
+
+  async get<T>(collection: string, key: string): Promise<T | null> {
+    const data = await this.loadCollection(collection);
+    return (data[key] as T) ?? null;
+  }
+
+  async getAll<T>(collection: string): Promise<Record<string, T>> {
+    const data = await this.loadCollection(collection);
+    return { ...data } as Record<string, T>;
+  }
+
+  async set<T>(collection: string, key: string, value: T): Promise<void> {
+    const data = await this.loadCollection(collection);
+    data[key] = value;
+    await this.writeCollection(collection);
+  }
+
+  async delete(collection: string, key: string): Promise<void> {
+    const data = await this.loadCollection(collection);
+    if (!(key in data)) {
+      return;
+    }
+
+    delete data[key];
+    await this.writeCollection(collection);
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.writes.values());
+  }
+
+  private getFilePath(collection: string): string {
+    return path.join(this.dataDir, `${collection}.json`);
+  }
+
+  private async loadCollection(collection: string): Promise<Collection> {
+    const cached = this.collections.get(collection);
+    if (cached) {
+      return cached;
+    }
+
+    let data: Collection = {};
+    try {
+      const content = await fs.readFile(this.getFilePath(collection), 'utf8');
+      data = JSON.parse(content);
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        this.logger.error(`Failed to read collection ${collection}:`, error);
+        throw error;
+      }
+    }
+
+    // Another call may have loaded the collection while we were reading.
+    if (!this.collections.has(collection)) {
+      this.collections.set(collection, data);
+    }
+    return this.collections.get(collection);
+  }
+
+  // Writes are chained per collection and go through a temp file + rename, so
+  // a crash mid-write never leaves a truncated JSON file behind.
+  private writeCollection(collection: string): Promise<void> {
+    const previous = this.writes.get(collection) ?? Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const filePath = this.getFilePath(collection);
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+        const content = JSON.stringify(
+          this.collections.get(collection),
+          null,
+          2,
+        );
+
+        await fs.writeFile(tempPath, content, 'utf8');
+        await fs.rename(tempPath, filePath);
+
+        this.logger.debug('Collection saved:', {
+          collection,
+          entries: Object.keys(this.collections.get(collection)).length,
+        });
+      });
+
+    this.writes.set(collection, next);
+    return next;
+  }
+}
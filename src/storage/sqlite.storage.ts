@@ -0,0 +1,80 @@
+import { Logger } from '@nestjs/common';
+import * as Database from 'better-sqlite3';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { KeyValueStorage } from './interfaces/key-value-storage.interface';
+
+export class SqliteStorage implements KeyValueStorage {
+  private readonly logger: Logger = new Logger(SqliteStorage.name);
+
+  private db?: Database.Database;
+
+  constructor(private readonly databasePath: string) {}
+
+  get location(): string {
+    return this.databasePath;
+  }
+
+  async init(): Promise<void> {
+    await fs.mkdir(path.dirname(this.databasePath), { recursive: true });
+
+    this.db = new Database(this.databasePath);
+    // WAL lets readers, e.g. backup tools, work while the bot writes; the
+    // busy timeout makes concurrent writers wait instead of failing
+    // immediately. This does not make several bot instances safe: each one
+    // would run its own schedules and queue drain.
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS entries (
+        collection TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (collection, key)
+      )
+    `);
+
+    this.logger.log('SQLite storage initialized:', {
+      path: this.databasePath,
+    });
+  }
+
+  async get<T>(collection: string, key: string): Promise<T | null> {
+    const row = this.db
+      .prepare('SELECT value FROM entries WHERE collection = ? AND key = ?')
+      .get(collection, key) as { value: string } | undefined;
+    return row ? JSON.parse(row.value) : null;
+  }
+
+  async getAll<T>(collection: string): Promise<Record<string, T>> {
+    const rows = this.db
+      .prepare('SELECT key, value FROM entries WHERE collection = ?')
+      .all(collection) as Array<{ key: string; value: string }>;
+
+    return Object.fromEntries(
+      rows.map((row) => [row.key, JSON.parse(row.value)]),
+    );
+  }
+
+  async set<T>(collection: string, key: string, value: T): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO entries (collection, key, value, updated_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT (collection, key)
+         DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+      )
+      .run(collection, key, JSON.stringify(value), new Date().toISOString());
+  }
+
+  async delete(collection: string, key: string): Promise<void> {
+    this.db
+      .prepare('DELETE FROM entries WHERE collection = ? AND key = ?')
+      .run(collection, key);
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+  }
+}
@@ -0,0 +1 @@
+export const STORAGE = 'STORAGE';
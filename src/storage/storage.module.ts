@@ -0,0 +1,47 @@
+import { Inject, Module, OnApplicationShutdown } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import {
+  KeyValueStorage,
+  StorageDriver,
+} from './interfaces/key-value-storage.interface';
+import { JsonFileStorage } from './json-file.storage';
+import { SqliteStorage } from './sqlite.storage';
+import { STORAGE } from './storage.constants';
+
+@Module({
+  providers: [
+    {
+      provide: STORAGE,
+      inject: [ConfigService],
+      useFactory: async (
+        configService: ConfigService,
+      ): Promise<KeyValueStorage> => {
+        const driver = configService.get<StorageDriver>(
+          'storage.driver',
+          'json',
+        );
+        const dataDir = configService.get<string>('storage.dataDir');
+
+        const storage =
+          driver === 'sqlite'
+            ? new SqliteStorage(
+                configService.get<string>('storage.sqlitePath') ||
+                  path.join(dataDir, 'bot.sqlite'),
+              )
+            : new JsonFileStorage(dataDir);
+
+        await storage.init();
+        return storage;
+      },
+    },
+  ],
+  exports: [STORAGE],
+})
+export class StorageModule implements OnApplicationShutdown {
+  constructor(@Inject(STORAGE) private readonly storage: KeyValueStorage) {}
+
+  async onApplicationShutdown(): Promise<void> {
+    await this.storage.close();
+  }
+}
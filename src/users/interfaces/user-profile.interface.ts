@@ -0,0 +1,33 @@
+export interface NotificationPreferences {
+  mentions: boolean; // @-mention the user in channel messages
+  directMessages: boolean; // personal DMs for reviews and reminders, opt-in
+}
+
+export interface VacationPeriod {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+}
+
+export interface BitbucketCredentials {
+  username: string; // Bitbucket username, or the Atlassian email for API tokens
+  password: string; // app password or API token with pull request write access
+}
+
+export interface UserProfile {
+  accountId: string; // Bitbucket account_id
+  displayName?: string;
+  pachkaUserId?: number;
+  mention?: string; // e.g. '@pzadkov'
+  timezone?: string; // e.g. 'Europe/Moscow'
+  vacations?: VacationPeriod[];
+  bitbucketCredentials?: BitbucketCredentials; // for /approve, /changes, /merge
+  notifications: NotificationPreferences;
+}
+
+// Shape of the directory file: profiles keyed by Bitbucket account_id.
+export type UserDirectoryFile = Record<
+  string,
+  Omit<UserProfile, 'accountId' | 'notifications'> & {
+    notifications?: Partial<NotificationPreferences>;
+  }
+>;
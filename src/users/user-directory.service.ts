@@ -0,0 +1,139 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import { BitbucketUser } from '../bitbucket/interfaces/pull-request.interface';
+import {
+  NotificationPreferences,
+  UserDirectoryFile,
+  UserProfile,
+} from './interfaces/user-profile.interface';
+
+type ReviewerMappings = {
+  [key: string]: string;
+};
+
+const DEFAULT_NOTIFICATIONS: NotificationPreferences = {
+  mentions: true,
+  directMessages: false,
+};
+
+@Injectable()
+export class UserDirectoryService implements OnModuleInit {
+  private readonly logger: Logger = new Logger(UserDirectoryService.name);
+
+  private profiles = new Map<string, UserProfile>();
+
+  private readonly directoryPath: string = this.configService.get(
+    'users.directoryPath',
+  );
+
+  // Display-name keyed mentions from REVIEWER_MAPPINGS, kept as a fallback
+  // for users that are not in the directory yet.
+  private readonly legacyMappings: ReviewerMappings = JSON.parse(
+    this.configService.get('pachka.reviewers') || '{}',
+  );
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.loadDirectory();
+
+    if (Object.keys(this.legacyMappings).length > 0) {
+      this.logger.warn(
+        'REVIEWER_MAPPINGS is deprecated, move mentions to the user directory keyed by account_id',
+      );
+    }
+  }
+
+  async loadDirectory(): Promise<void> {
+    if (!this.directoryPath) {
+      this.logger.log('No user directory configured');
+      return;
+    }
+
+    try {
+      const data: UserDirectoryFile = JSON.parse(
+        await fs.readFile(this.directoryPath, 'utf8'),
+      );
+
+      this.profiles = new Map(
+        Object.entries(data).map(([accountId, entry]) => [
+          accountId,
+          {
+            ...entry,
+            accountId,
+            notifications: { ...DEFAULT_NOTIFICATIONS, ...entry.notifications },
+          },
+        ]),
+      );
+
+      this.logger.log('User directory loaded:', {
+        path: this.directoryPath,
+        users: this.profiles.size,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to load user directory from ${this.directoryPath}:`,
+        error.message,
+      );
+      throw error;
+    }
+  }
+
+  getProfile(accountId: string): UserProfile | undefined {
+    return this.profiles.get(accountId);
+  }
+
+  getAllProfiles(): UserProfile[] {
+    return [...this.profiles.values()];
+  }
+
+  findByPachkaUserId(pachkaUserId: number): UserProfile | undefined {
+    return this.getAllProfiles().find(
+      (profile) => profile.pachkaUserId === pachkaUserId,
+    );
+  }
+
+  findByMention(mention: string): UserProfile | undefined {
+    const normalized = mention.toLowerCase();
+    return this.getAllProfiles().find(
+      (profile) => profile.mention?.toLowerCase() === normalized,
+    );
+  }
+
+  getDisplayName(user: BitbucketUser): string {
+    return this.getProfile(user.account_id)?.displayName || user.display_name;
+  }
+
+  // Display name followed by the Pachka mention, unless the user opted out
+  // of mentions or has no mention configured.
+  formatMention(user: BitbucketUser): string {
+    const displayName = this.getDisplayName(user);
+    const profile = this.getProfile(user.account_id);
+    const mention = profile
+      ? profile.notifications.mentions && profile.mention
+      : this.legacyMappings[user.display_name];
+
+    return mention ? `${displayName} - ${mention}` : displayName;
+  }
+
+  // For users referenced only by account_id in config, e.g. team leads.
+  getUser(accountId: string): BitbucketUser {
+    return {
+      account_id: accountId,
+      display_name: this.getProfile(accountId)?.displayName ?? accountId,
+    };
+  }
+
+  formatAccountMention(accountId: string): string {
+    return this.formatMention(this.getUser(accountId));
+  }
+
+  // Pachka user id to DM, if the user opted in to direct messages.
+  getDirectMessageRecipient(user: BitbucketUser): number | undefined {
+    const profile = this.getProfile(user.account_id);
+    return profile?.notifications.directMessages
+      ? profile.pachkaUserId
+      : undefined;
+  }
+}
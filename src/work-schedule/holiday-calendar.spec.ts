@@ -0,0 +1,93 @@
+import {
+  createHolidayCalendar,
+  mergeHolidayCalendars,
+  parseHolidayCalendar,
+} from './holiday-calendar';
+
+describe('holiday calendars', () => {
+  describe('JSON', () => {
+    it('reads holidays and moved working days', () => {
+      const calendar = parseHolidayCalendar(
+        JSON.stringify({
+          holidays: ['2026-05-01', '2026-05-11'],
+          workingDays: ['2026-05-09'],
+        }),
+        'holidays.json',
+      );
+
+      expect(calendar.holidays).toEqual(new Set(['2026-05-01', '2026-05-11']));
+      expect(calendar.workingDays).toEqual(new Set(['2026-05-09']));
+    });
+
+    it('allows either list to be omitted', () => {
+      const calendar = parseHolidayCalendar(
+        JSON.stringify({ holidays: ['2026-01-01'] }),
+        'holidays.json',
+      );
+
+      expect(calendar.workingDays.size).toBe(0);
+    });
+
+    it('rejects dates not in YYYY-MM-DD format', () => {
+      expect(() =>
+        parseHolidayCalendar(
+          JSON.stringify({ holidays: ['01.05.2026'] }),
+          'holidays.json',
+        ),
+      ).toThrow('Invalid date "01.05.2026"');
+    });
+  });
+
+  describe('iCalendar', () => {
+    it('treats every event as days off with an exclusive end date', () => {
+      const calendar = parseHolidayCalendar(
+        [
+          'BEGIN:VCALENDAR',
+          'BEGIN:VEVENT',
+          'DTSTART;VALUE=DATE:20261231',
+          'DTEND;VALUE=DATE:20270103',
+          'SUMMARY:New Year',
+          'END:VEVENT',
+          'BEGIN:VEVENT',
+          'DTSTART;VALUE=DATE:20260501',
+          'SUMMARY:Labour Day',
+          'END:VEVENT',
+          'END:VCALENDAR',
+        ].join('\r\n'),
+        'Holidays.ICS',
+      );
+
+      expect(calendar.holidays).toEqual(
+        new Set(['2026-12-31', '2027-01-01', '2027-01-02', '2026-05-01']),
+      );
+      expect(calendar.workingDays.size).toBe(0);
+    });
+
+    it('unfolds long lines before parsing', () => {
+      const calendar = parseHolidayCalendar(
+        [
+          'BEGIN:VEVENT',
+          'DTSTART;TZID=Europe/Moscow;VALUE=DATE:',
+          ' 20260612',
+          'END:VEVENT',
+        ].join('\n'),
+        'holidays.ics',
+      );
+
+      expect(calendar.holidays).toEqual(new Set(['2026-06-12']));
+    });
+  });
+
+  it('merges calendars into the target', () => {
+    const target = createHolidayCalendar();
+    target.holidays.add('2026-01-01');
+
+    mergeHolidayCalendars(target, {
+      holidays: new Set(['2026-01-02']),
+      workingDays: new Set(['2026-01-10']),
+    });
+
+    expect(target.holidays).toEqual(new Set(['2026-01-01', '2026-01-02']));
+    expect(target.workingDays).toEqual(new Set(['2026-01-10']));
+  });
+});
@@ -0,0 +1,84 @@
+import { HolidayCalendar } from './interfaces/work-schedule.config';
+import { addDays } from './time-zone';
+
+// JSON calendars list days off and, for production calendars with moved
+// weekends, extra working days.
+interface HolidayCalendarFile {
+  holidays?: string[];
+  workingDays?: string[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function createHolidayCalendar(): HolidayCalendar {
+  return { holidays: new Set(), workingDays: new Set() };
+}
+
+export function mergeHolidayCalendars(
+  target: HolidayCalendar,
+  source: HolidayCalendar,
+): void {
+  source.holidays.forEach((date) => target.holidays.add(date));
+  source.workingDays.forEach((date) => target.workingDays.add(date));
+}
+
+export function parseHolidayCalendar(
+  content: string,
+  fileName: string,
+): HolidayCalendar {
+  return fileName.toLowerCase().endsWith('.ics')
+    ? parseIcsCalendar(content)
+    : parseJsonCalendar(content);
+}
+
+function parseJsonCalendar(content: string): HolidayCalendar {
+  const data: HolidayCalendarFile = JSON.parse(content);
+  const calendar = createHolidayCalendar();
+
+  for (const [dates, target] of [
+    [data.holidays ?? [], calendar.holidays],
+    [data.workingDays ?? [], calendar.workingDays],
+  ] as const) {
+    for (const date of dates) {
+      if (!DATE_PATTERN.test(date)) {
+        throw new Error(`Invalid date "${date}", expected YYYY-MM-DD`);
+      }
+      target.add(date);
+    }
+  }
+
+  return calendar;
+}
+
+// Every VEVENT is a day off. DTEND is exclusive, as in all-day events
+// exported by calendar apps.
+function parseIcsCalendar(content: string): HolidayCalendar {
+  const calendar = createHolidayCalendar();
+  // Long lines are folded onto continuation lines starting with whitespace.
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  let start: string | undefined;
+  let end: string | undefined;
+  for (const line of lines) {
+    if (line.startsWith('BEGIN:VEVENT')) {
+      start = end = undefined;
+    } else if (line.startsWith('DTSTART')) {
+      start = parseIcsDate(line);
+    } else if (line.startsWith('DTEND')) {
+      end = parseIcsDate(line);
+    } else if (line.startsWith('END:VEVENT') && start) {
+      let date = start;
+      do {
+        calendar.holidays.add(date);
+        date = addDays(date, 1);
+      } while (end && date < end);
+    }
+  }
+
+  return calendar;
+}
+
+function parseIcsDate(line: string): string | undefined {
+  const match = /:(\d{4})(\d{2})(\d{2})/.exec(line);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
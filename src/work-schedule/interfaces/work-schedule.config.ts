@@ -0,0 +1,15 @@
+export interface TimeRange {
+  start: number; // minutes since midnight, inclusive
+  end: number; // minutes since midnight, exclusive
+}
+
+export interface WorkSchedule {
+  workDays: number[]; // 0 = Sunday, 1 = Monday, ..., 6 = Saturday
+  workHours: TimeRange[]; // sorted, applied to every work day
+  timezone: string; // e.g., 'Europe/Moscow'
+}
+
+export interface HolidayCalendar {
+  holidays: Set<string>; // YYYY-MM-DD days off, even on work days
+  workingDays: Set<string>; // YYYY-MM-DD working days, even on weekends
+}
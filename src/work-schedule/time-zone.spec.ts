@@ -0,0 +1,100 @@
+import {
+  addDays,
+  formatClockTime,
+  getLocalTime,
+  getWeekday,
+  parseClockTime,
+  toInstant,
+} from './time-zone';
+
+describe('time zone helpers', () => {
+  describe('getLocalTime', () => {
+    it('returns the wall clock date, weekday and time in the zone', () => {
+      expect(
+        getLocalTime(new Date('2026-10-19T07:30:00Z'), 'Europe/Moscow'),
+      ).toEqual({ date: '2026-10-19', weekday: 1, minutes: 10 * 60 + 30 });
+    });
+
+    it('rolls over to the local date ahead of UTC', () => {
+      expect(
+        getLocalTime(new Date('2026-10-18T22:15:00Z'), 'Europe/Moscow'),
+      ).toEqual({ date: '2026-10-19', weekday: 1, minutes: 1 * 60 + 15 });
+    });
+
+    it('follows the offset change on DST transitions', () => {
+      expect(
+        getLocalTime(new Date('2026-03-29T00:30:00Z'), 'Europe/Berlin').minutes,
+      ).toBe(1 * 60 + 30);
+      expect(
+        getLocalTime(new Date('2026-03-29T01:30:00Z'), 'Europe/Berlin').minutes,
+      ).toBe(3 * 60 + 30);
+    });
+  });
+
+  describe('toInstant', () => {
+    it('converts a wall clock time to UTC', () => {
+      expect(toInstant('2026-10-19', 10 * 60, 'Europe/Moscow')).toEqual(
+        new Date('2026-10-19T07:00:00Z'),
+      );
+    });
+
+    it('uses the offset in effect on that day around DST transitions', () => {
+      expect(toInstant('2026-03-28', 10 * 60, 'Europe/Berlin')).toEqual(
+        new Date('2026-03-28T09:00:00Z'),
+      );
+      expect(toInstant('2026-03-29', 10 * 60, 'Europe/Berlin')).toEqual(
+        new Date('2026-03-29T08:00:00Z'),
+      );
+      expect(toInstant('2026-10-25', 10 * 60, 'Europe/Berlin')).toEqual(
+        new Date('2026-10-25T09:00:00Z'),
+      );
+    });
+
+    it('handles midnight on both sides of a DST transition', () => {
+      expect(toInstant('2026-03-29', 0, 'Europe/Berlin')).toEqual(
+        new Date('2026-03-28T23:00:00Z'),
+      );
+      expect(toInstant('2026-03-29', 24 * 60, 'Europe/Berlin')).toEqual(
+        new Date('2026-03-29T22:00:00Z'),
+      );
+    });
+
+    it('moves a time skipped by the spring transition forward', () => {
+      expect(toInstant('2026-03-29', 2 * 60 + 30, 'Europe/Berlin')).toEqual(
+        new Date('2026-03-29T01:30:00Z'),
+      );
+    });
+  });
+
+  describe('dates', () => {
+    it('adds days across month and year boundaries', () => {
+      expect(addDays('2026-10-31', 1)).toBe('2026-11-01');
+      expect(addDays('2026-12-31', 1)).toBe('2027-01-01');
+      expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+    });
+
+    it('returns the weekday of a date', () => {
+      expect(getWeekday('2026-10-19')).toBe(1);
+      expect(getWeekday('2026-10-25')).toBe(0);
+    });
+  });
+
+  describe('clock times', () => {
+    it('parses HH:MM into minutes since midnight', () => {
+      expect(parseClockTime('9:05')).toBe(9 * 60 + 5);
+      expect(parseClockTime(' 18:30 ')).toBe(18 * 60 + 30);
+      expect(parseClockTime('24:00')).toBe(24 * 60);
+    });
+
+    it('rejects malformed times', () => {
+      expect(() => parseClockTime('18')).toThrow('Invalid time "18"');
+      expect(() => parseClockTime('25:00')).toThrow();
+      expect(() => parseClockTime('10:60')).toThrow();
+    });
+
+    it('formats minutes as HH:MM', () => {
+      expect(formatClockTime(9 * 60 + 5)).toBe('09:05');
+      expect(formatClockTime(24 * 60)).toBe('24:00');
+    });
+  });
+});
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { UsersModule } from '../users/users.module';
+import { WorkScheduleService } from './work-schedule.service';
+
+@Module({
+  imports: [UsersModule],
+  providers: [WorkScheduleService],
+  exports: [WorkScheduleService],
+})
+export class WorkScheduleModule {}
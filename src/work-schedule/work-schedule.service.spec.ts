@@ -0,0 +1,267 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { BitbucketUser } from '../bitbucket/interfaces/pull-request.interface';
+import { UserProfile } from '../users/interfaces/user-profile.interface';
+import { UserDirectoryService } from '../users/user-directory.service';
+import { WorkScheduleService } from './work-schedule.service';
+
+const alice: BitbucketUser = { account_id: 'alice', display_name: 'Alice' };
+const bob: BitbucketUser = { account_id: 'bob', display_name: 'Bob' };
+const carol: BitbucketUser = { account_id: 'carol', display_name: 'Carol' };
+
+const profiles: Record<string, Partial<UserProfile>> = {
+  alice: { timezone: 'Asia/Vladivostok' },
+  bob: { vacations: [{ from: '2026-05-04', to: '2026-05-08' }] },
+  carol: { vacations: [{ from: '2026-01-01', to: '2099-12-31' }] },
+};
+
+const userDirectory = {
+  getProfile: (accountId: string) => profiles[accountId],
+} as UserDirectoryService;
+
+let holidaysPath: string;
+
+beforeAll(async () => {
+  Logger.overrideLogger(false);
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'work-schedule-'));
+  holidaysPath = path.join(dir, 'holidays.json');
+  // May 2026: Friday the 1st and Monday the 11th are days off, Saturday the
+  // 9th is a working day.
+  await fs.writeFile(
+    holidaysPath,
+    JSON.stringify({
+      holidays: ['2026-05-01', '2026-05-11'],
+      workingDays: ['2026-05-09'],
+    }),
+  );
+});
+
+afterAll(async () => {
+  await fs.rm(path.dirname(holidaysPath), { recursive: true, force: true });
+});
+
+async function createService(
+  workSchedule: Record<string, unknown> = {},
+): Promise<WorkScheduleService> {
+  const service = new WorkScheduleService(
+    new ConfigService({ workSchedule: { holidaysPath, ...workSchedule } }),
+    userDirectory,
+  );
+  await service.onModuleInit();
+  return service;
+}
+
+describe('WorkScheduleService', () => {
+  // Europe/Moscow is UTC+3 all year, so 10:00-18:00 is 07:00-15:00 UTC.
+  describe('default schedule', () => {
+    let service: WorkScheduleService;
+
+    beforeAll(async () => {
+      service = await createService();
+    });
+
+    it('works Monday to Friday, 10:00 to 18:00 Moscow time', () => {
+      expect(service.schedule).toEqual({
+        workDays: [1, 2, 3, 4, 5],
+        workHours: [{ start: 10 * 60, end: 18 * 60 }],
+        timezone: 'Europe/Moscow',
+      });
+      expect(service.isWorkingHours(new Date('2026-05-04T07:00:00Z'))).toBe(
+        true,
+      );
+      expect(service.isWorkingHours(new Date('2026-05-04T15:00:00Z'))).toBe(
+        false,
+      );
+    });
+
+    it('counts working hours within a day', () => {
+      expect(
+        service.getWorkingHoursBetween(
+          new Date('2026-05-04T09:00:00Z'),
+          new Date('2026-05-04T12:30:00Z'),
+        ),
+      ).toBe(3.5);
+    });
+
+    it('skips weekends', () => {
+      expect(
+        service.getWorkingHoursBetween(
+          new Date('2026-05-15T14:00:00Z'),
+          new Date('2026-05-18T08:00:00Z'),
+        ),
+      ).toBe(2);
+    });
+
+    it('skips holidays', () => {
+      expect(service.isWorkingDay('2026-05-01')).toBe(false);
+      expect(
+        service.getWorkingHoursBetween(
+          new Date('2026-04-30T14:00:00Z'),
+          new Date('2026-05-04T08:00:00Z'),
+        ),
+      ).toBe(2);
+    });
+
+    it('counts weekends moved to working days', () => {
+      expect(service.isWorkingDay('2026-05-09')).toBe(true);
+      expect(service.isWorkingHours(new Date('2026-05-09T08:00:00Z'))).toBe(
+        true,
+      );
+      expect(
+        service.getWorkingHoursBetween(
+          new Date('2026-05-08T14:00:00Z'),
+          new Date('2026-05-12T07:00:00Z'),
+        ),
+      ).toBe(9);
+    });
+
+    it('returns the time itself when it is working time', () => {
+      const now = new Date('2026-05-04T10:00:00Z');
+
+      expect(service.getNextWorkingTime(now)).toEqual(now);
+    });
+
+    it('returns the start of the next working day after hours', () => {
+      expect(
+        service.getNextWorkingTime(new Date('2026-04-30T16:00:00Z')),
+      ).toEqual(new Date('2026-05-04T07:00:00Z'));
+    });
+
+    it('returns the local date in the team timezone', () => {
+      expect(service.getToday(new Date('2026-05-03T22:00:00Z'))).toBe(
+        '2026-05-04',
+      );
+    });
+  });
+
+  describe('work hours', () => {
+    it('supports several ranges a day', async () => {
+      const service = await createService({
+        hours: ['14:00-19:00', '10:00-13:00'],
+      });
+
+      expect(service.schedule.workHours).toEqual([
+        { start: 10 * 60, end: 13 * 60 },
+        { start: 14 * 60, end: 19 * 60 },
+      ]);
+      expect(service.isWorkingHours(new Date('2026-05-04T10:30:00Z'))).toBe(
+        false,
+      );
+      expect(
+        service.getWorkingHoursBetween(
+          new Date('2026-05-04T09:00:00Z'),
+          new Date('2026-05-04T12:00:00Z'),
+        ),
+      ).toBe(2);
+      expect(
+        service.getNextWorkingTime(new Date('2026-05-04T10:30:00Z')),
+      ).toEqual(new Date('2026-05-04T11:00:00Z'));
+    });
+
+    it('falls back to whole start and end hours', async () => {
+      const service = await createService({ startHour: 9, endHour: 17 });
+
+      expect(service.schedule.workHours).toEqual([
+        { start: 9 * 60, end: 17 * 60 },
+      ]);
+    });
+
+    it('rejects empty ranges', async () => {
+      await expect(createService({ hours: ['18:00-10:00'] })).rejects.toThrow(
+        'Invalid work hours range "18:00-10:00"',
+      );
+    });
+  });
+
+  describe('DST transitions', () => {
+    it('keeps local work hours after the clocks go forward', async () => {
+      const service = await createService({ timezone: 'Europe/Berlin' });
+
+      // Friday 17:00 CET to Monday 11:00 CEST.
+      expect(
+        service.getWorkingHoursBetween(
+          new Date('2026-03-27T16:00:00Z'),
+          new Date('2026-03-30T09:00:00Z'),
+        ),
+      ).toBe(2);
+      expect(
+        service.getNextWorkingTime(new Date('2026-03-27T17:00:00Z')),
+      ).toEqual(new Date('2026-03-30T08:00:00Z'));
+    });
+
+    it('counts the real length of days with a DST transition', async () => {
+      const service = await createService({
+        timezone: 'Europe/Berlin',
+        workDays: [0, 1, 2, 3, 4, 5, 6],
+        hours: ['00:00-24:00'],
+      });
+
+      expect(
+        service.getWorkingHoursBetween(
+          new Date('2026-03-28T23:00:00Z'),
+          new Date('2026-03-29T22:00:00Z'),
+        ),
+      ).toBe(23);
+      expect(
+        service.getWorkingHoursBetween(
+          new Date('2026-10-24T22:00:00Z'),
+          new Date('2026-10-25T23:00:00Z'),
+        ),
+      ).toBe(25);
+    });
+  });
+
+  describe('per-user schedule', () => {
+    let service: WorkScheduleService;
+
+    beforeAll(async () => {
+      service = await createService();
+    });
+
+    it("uses the user's timezone", () => {
+      const from = new Date('2026-05-04T00:00:00Z');
+      const to = new Date('2026-05-04T08:00:00Z');
+
+      expect(service.isWorkingHours(from, alice)).toBe(true);
+      expect(service.isWorkingHours(from)).toBe(false);
+      expect(service.getWorkingHoursBetween(from, to, alice)).toBe(8);
+      expect(service.getWorkingHoursBetween(from, to)).toBe(1);
+    });
+
+    it('falls back to the team schedule without a profile', () => {
+      const unknown: BitbucketUser = { account_id: 'dave', display_name: '' };
+
+      expect(
+        service.isWorkingHours(new Date('2026-05-04T07:00:00Z'), unknown),
+      ).toBe(true);
+    });
+
+    it("skips the user's vacation", () => {
+      const from = new Date('2026-05-04T07:00:00Z');
+      const to = new Date('2026-05-09T15:00:00Z');
+
+      expect(service.getWorkingHoursBetween(from, to, bob)).toBe(8);
+      expect(service.getWorkingHoursBetween(from, to)).toBe(48);
+      expect(service.getNextWorkingTime(from, bob)).toEqual(
+        new Date('2026-05-09T07:00:00Z'),
+      );
+    });
+
+    it("checks availability on the team's next working day", () => {
+      const holiday = new Date('2026-05-01T09:00:00Z');
+
+      expect(service.isAvailable(bob, holiday)).toBe(false);
+      expect(service.isAvailable(alice, holiday)).toBe(true);
+    });
+
+    it('does not defer when no working time is found ahead', () => {
+      const now = new Date('2026-05-04T07:00:00Z');
+
+      expect(service.getNextWorkingTime(now, carol)).toEqual(now);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import { BitbucketUser } from '../bitbucket/interfaces/pull-request.interface';
+import { UserDirectoryService } from '../users/user-directory.service';
+import {
+  createHolidayCalendar,
+  mergeHolidayCalendars,
+  parseHolidayCalendar,
+} from './holiday-calendar';
+import {
+  HolidayCalendar,
+  TimeRange,
+  WorkSchedule,
+} from './interfaces/work-schedule.config';
+import {
+  addDays,
+  formatClockTime,
+  getLocalTime,
+  getWeekday,
+  parseClockTime,
+  toInstant,
+} from './time-zone';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How far ahead to look for the next working window before giving up, e.g.
+// for a user whose vacation has no end in sight.
+const MAX_LOOKAHEAD_DAYS = 366;
+
+interface WorkingWindow {
+  start: Date;
+  end: Date;
+}
+
+@Injectable()
+export class WorkScheduleService implements OnModuleInit {
+  private readonly logger: Logger = new Logger(WorkScheduleService.name);
+
+  readonly schedule: WorkSchedule;
+
+  private calendar: HolidayCalendar = createHolidayCalendar();
+
+  private readonly holidayPaths: string[] = (
+    this.configService.get<string>('workSchedule.holidaysPath') || ''
+  )
+    .split(',')
+    .map((path) => path.trim())
+    .filter(Boolean);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly userDirectory: UserDirectoryService,
+  ) {
+    this.schedule = {
+      workDays: this.configService.get<number[]>(
+        'workSchedule.workDays',
+        [1, 2, 3, 4, 5],
+      ), // Mon-Fri by default
+      workHours: this.loadWorkHours(),
+      timezone: this.configService.get<string>(
+        'workSchedule.timezone',
+        'Europe/Moscow',
+      ),
+    };
+
+    this.logger.log('Work schedule initialized:', {
+      workDays: this.schedule.workDays,
+      workHours: this.schedule.workHours.map(
+        (range) =>
+          `${formatClockTime(range.start)}-${formatClockTime(range.end)}`,
+      ),
+      timezone: this.schedule.timezone,
+    });
+  }
+
+  async onModuleInit(): Promise<void> {
+    for (const path of this.holidayPaths) {
+      try {
+        const calendar = parseHolidayCalendar(
+          await fs.readFile(path, 'utf8'),
+          path,
+        );
+        mergeHolidayCalendars(this.calendar, calendar);
+
+        this.logger.log('Holiday calendar loaded:', {
+          path,
+          holidays: calendar.holidays.size,
+          workingDays: calendar.workingDays.size,
+        });
+      } catch (error) {
+        this.logger.error(
+          `Failed to load holiday calendar from ${path}:`,
+          error.message,
+        );
+        throw error;
+      }
+    }
+  }
+
+  // Explicit ranges ("10:00-13:00") take precedence over the legacy
+  // whole-hour start and end settings.
+  private loadWorkHours(): TimeRange[] {
+    const hours = this.configService.get<string[]>('workSchedule.hours');
+    if (!hours?.length) {
+      return [
+        {
+          start:
+            this.configService.get<number>('workSchedule.startHour', 10) * 60, // 10 AM by default
+          end: this.configService.get<number>('workSchedule.endHour', 18) * 60, // 6 PM by default
+        },
+      ];
+    }
+
+    return hours
+      .map((range) => {
+        const [start, end] = range.split('-').map(parseClockTime);
+        if (!(start < end)) {
+          throw new Error(`Invalid work hours range "${range}"`);
+        }
+        return { start, end };
+      })
+      .sort((a, b) => a.start - b.start);
+  }
+
+  // Without a user the team schedule applies; with one, the user's timezone
+  // and vacations from the user directory are taken into account.
+  isWorkingHours(date: Date = new Date(), user?: BitbucketUser): boolean {
+    const local = getLocalTime(date, this.getTimezone(user));
+    const isWorkTime =
+      this.isWorkingDay(local.date, user) &&
+      this.schedule.workHours.some(
+        (range) => local.minutes >= range.start && local.minutes < range.end,
+      );
+
+    this.logger.debug('Work hours check:', {
+      date: local.date,
+      minutes: local.minutes,
+      user: user?.account_id,
+      isWorkTime,
+    });
+
+    return isWorkTime;
+  }
+
+  isWorkingDay(date: string, user?: BitbucketUser): boolean {
+    if (this.isOnVacation(date, user)) {
+      return false;
+    }
+    if (this.calendar.workingDays.has(date)) {
+      return true;
+    }
+    if (this.calendar.holidays.has(date)) {
+      return false;
+    }
+    return this.schedule.workDays.includes(getWeekday(date));
+  }
+
+  // Whether the user works on the team's next working day, i.e. is not on
+  // vacation then.
+  isAvailable(user: BitbucketUser, date: Date = new Date()): boolean {
+    return this.isWorkingDay(
+      this.getToday(this.getNextWorkingTime(date)),
+      user,
+    );
+  }
+
+  // Today's date (YYYY-MM-DD) in the schedule's timezone.
+  getToday(date: Date = new Date()): string {
+    return getLocalTime(date, this.schedule.timezone).date;
+  }
+
+  // Hours between the two dates that fall inside the work schedule.
+  getWorkingHoursBetween(from: Date, to: Date, user?: BitbucketUser): number {
+    let total = 0;
+    for (const window of this.getWorkingWindows(from, user)) {
+      if (window.start >= to) {
+        break;
+      }
+      total += Math.max(
+        0,
+        Math.min(to.getTime(), window.end.getTime()) -
+          Math.max(from.getTime(), window.start.getTime()),
+      );
+    }
+    return total / HOUR_MS;
+  }
+
+  // `from` itself when it is working time, otherwise the start of the next
+  // working window.
+  getNextWorkingTime(from: Date = new Date(), user?: BitbucketUser): Date {
+    for (const window of this.getWorkingWindows(from, user)) {
+      if (window.end > from) {
+        return window.start > from ? window.start : from;
+      }
+    }
+
+    this.logger.warn('No working time found ahead, not deferring:', {
+      user: user?.account_id,
+    });
+    return from;
+  }
+
+  private *getWorkingWindows(
+    from: Date,
+    user?: BitbucketUser,
+  ): Generator<WorkingWindow> {
+    const timezone = this.getTimezone(user);
+    let date = getLocalTime(from, timezone).date;
+
+    for (let day = 0; day < MAX_LOOKAHEAD_DAYS; day++) {
+      if (this.isWorkingDay(date, user)) {
+        for (const range of this.schedule.workHours) {
+          yield {
+            start: toInstant(date, range.start, timezone),
+            end: toInstant(date, range.end, timezone),
+          };
+        }
+      }
+      date = addDays(date, 1);
+    }
+  }
+
+  private getTimezone(user?: BitbucketUser): string {
+    return (
+      (user && this.userDirectory.getProfile(user.account_id)?.timezone) ||
+      this.schedule.timezone
+    );
+  }
+
+  private isOnVacation(date: string, user?: BitbucketUser): boolean {
+    const vacations = user
+      ? this.userDirectory.getProfile(user.account_id)?.vacations
+      : undefined;
+    return !!vacations?.some(
+      (vacation) => date >= vacation.from && date <= vacation.to,
+    );
+  }
+}